@@ -4,136 +4,103 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateImageFromPrompt, generateVideoFromPrompt, checkVideoOperationStatus, removeBackgroundImage, upscaleImage, balanceImageColors, enhancePrompt, analyzeVideoFrame, getAICropSuggestions } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
+import { generateEditedImage, generateFilteredImage, generateImageFromPrompt, generateVideoFromPrompt, downloadVideos, removeBackgroundImage, upscaleImage, balanceImageColors, enhancePrompt, analyzeVideoFrame, getAICropSuggestions, type VideoOperation } from './services/aiProvider';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
 import AdjustmentPanel from './components/AdjustmentPanel';
 // FIX: Add missing import for CropPanel
 import CropPanel from './components/CropPanel';
-import { UndoIcon, RedoIcon, EyeIcon, SparklesIcon, MagicWandIcon, GenerateImageIcon, GenerateVideoIcon, PlayIcon, PauseIcon, VolumeHighIcon, VolumeMuteIcon, FullscreenIcon, ExitFullscreenIcon, AnalyzeFrameIcon, MusicIcon } from './components/icons';
+import { UndoIcon, RedoIcon, EyeIcon, SparklesIcon, MagicWandIcon, GenerateImageIcon, GenerateVideoIcon, PlayIcon, PauseIcon, VolumeHighIcon, VolumeMuteIcon, FullscreenIcon, ExitFullscreenIcon, AnalyzeFrameIcon, MusicIcon, EditIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
-import ApiErrorToast from './components/ApiErrorToast';
-
-// --- IndexedDB Service ---
-const DB_NAME = 'PeterPixxDB';
-const STORE_NAME = 'missionResults';
-const DB_VERSION = 1;
-
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onupgradeneeded = () => {
-      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
-    };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-};
-
-const saveResult = async (id: string, result: Blob | string[]) => {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  tx.objectStore(STORE_NAME).put({ id, result });
-  return new Promise<void>((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
-};
-
-const getResult = async (id: string): Promise<Blob | string[] | undefined> => {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const request = tx.objectStore(STORE_NAME).get(id);
-  return new Promise((resolve) => {
-    request.onsuccess = () => {
-      resolve(request.result?.result);
-    };
-    request.onerror = () => resolve(undefined); // Don't reject, just return undefined
-  });
-};
-
-const deleteResult = async (id: string) => {
-    const db = await openDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    tx.objectStore(STORE_NAME).delete(id);
-    return new Promise<void>((resolve, reject) => {
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
-    });
-}
-
-
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
-
-// Helper to convert File to Data URL
-const fileToDataURL = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
-        reader.readAsDataURL(file);
-    });
+import ApiErrorToast, { type ApiErrorNotice } from './components/ApiErrorToast';
+import SettingsModal from './components/SettingsModal';
+import StorageModal from './components/StorageModal';
+import MaskCanvas, { type MaskTool } from './components/MaskCanvas';
+import RetouchPanel from './components/RetouchPanel';
+import { compositeMaskedEdit, createMaskImage, snapshotMask } from './services/maskCompositing';
+import { isAbortError, throwIfAborted } from './services/abort';
+import { classifyError, type AIErrorType } from './services/aiErrors';
+import { getSettings, type AppSettings } from './services/settings';
+import { deleteMissionData, deleteResults, getAudio, getReferenceImage, getResult, getResultSizes, getVideoClips, isImageResult, loadEditorSession, loadMissions, saveAudio, saveMissions, saveReferenceImage, saveResult, StorageError } from './services/storage';
+import { createThumbnail } from './services/thumbnails';
+import { DEFAULT_IMAGE_PARAMS, DEFAULT_VIDEO_PARAMS, describeImageParams, describeVideoParams, getImageParams, getVideoParams, type ImageGenerationParams, type VideoGenerationParams } from './services/generationParams';
+import { addHistoryNode, canRedoHistory, canUndoHistory, createHistory, EDIT_OPERATION_LABELS, EMPTY_HISTORY, getCurrentNode, hasRepositionedPixels, redoHistory, resetToRoot, selectHistoryNode, setNodeThumbnail, undoHistory, type EditHistory, type EditOperation } from './services/editHistory';
+import { addHistoryImage, clearHistoryImages, getHistoryImage } from './services/historyImages';
+import { blobToBase64, dataURLtoFile } from './services/imageCodec';
+import { createSessionId, createSessionWriter, restoreHistory, restoreLayers, type EditorSessionState, type SessionWriter } from './services/editorSessions';
+import { getVideoDeadlineMinutes, getVideoDeadlineMs, pollVideoOperation, validateVideoBlob } from './services/videoPolling';
+import ImageParamsPanel from './components/ImageParamsPanel';
+import VideoParamsPanel from './components/VideoParamsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import AdjustmentPreview from './components/AdjustmentPreview';
+import HistogramPanel from './components/HistogramPanel';
+import ClippingOverlay from './components/ClippingOverlay';
+import { cropImage, describeTransform, getCropMapping, getResizeMapping, getStraightenScale, getTransformMapping, percentToPixelRect, transformImage, type ImageTransform, type PixelRect } from './services/imageTransforms';
+import { RESAMPLING_METHODS, resizeImage, type ResamplingMethod } from './services/resample';
+import ResizeDialog from './components/ResizeDialog';
+import ExportDialog from './components/ExportDialog';
+import EditorCanvas from './components/EditorCanvas';
+import LayersPanel from './components/LayersPanel';
+import TextPanel from './components/TextPanel';
+import { createImageLayer, createLayerStack, createTextLayer, DEFAULT_TEXT_STYLE, fitLayerToDocument, flattenLayers, hasLayerEffects, insertLayer, isImageLayer, mapLayers, matchLayerPlacement, moveLayer, PHOTO_LAYER_ID, prepareStickerImage, readImageSize, removeLayer, updateLayer, type ImageLayer, type Layer, type LayerChanges, type LayerTransform } from './services/layers';
+import { ANALYSIS_MAX_EDGE, getRelativeImagePoint } from './services/imageAnalysis';
+import { DEFAULT_LOCAL_ADJUSTMENTS, describeLocalAdjustments, isDefaultAdjustments, readImagePixels, renderLocalAdjustments, type LocalAdjustments } from './services/localAdjustments';
+import { getEvictionPolicy, selectResultsToEvict } from './services/evictionPolicy';
+import { downloadBlob, exportMissionsAsZip } from './services/missionExport';
+import { getSchedulerLimits, getQueuePausedFromStorage, saveQueuePausedToStorage, selectMissionsToStart } from './services/missionScheduler';
+import { applyMissionChange, createTabCoordinator, type MissionChange, type TabCoordinator } from './services/tabCoordinator';
+import { isUnread, notifyMissionFinished, updateUnreadBadge } from './services/notifications';
+
+// Rule-of-thirds lines over the straighten preview.
+const STRAIGHTEN_GRID_STYLE: React.CSSProperties = {
+    backgroundImage: 'linear-gradient(to right, rgba(255,255,255,0.35) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.35) 1px, transparent 1px)',
+    backgroundSize: '33.333% 33.333%',
+    backgroundPosition: 'center',
 };
 
-
 // Types
-type Tab = 'retouch' | 'crop' | 'adjust' | 'filters';
+type Tab = 'retouch' | 'crop' | 'adjust' | 'filters' | 'text';
+const EDITOR_TABS: Tab[] = ['retouch', 'crop', 'adjust', 'filters', 'text'];
 type View = 'start' | 'editor' | 'image-gen' | 'video-gen';
 export type MissionType = 'image-gen' | 'video-gen';
 export type CropSuggestion = { name: string; crop: { x: number; y: number; width: number; height: number; }};
+// The generated image the editor was opened from, if any.
+export type EditorSource = { missionId: string; prompt: string; imageIndex: number };
+// A starting frame for the next video mission; `id` is set once it is stored.
+type VideoReference = { image: Blob; id?: string };
 
 
 export interface Mission {
   id: string;
   type: MissionType;
   prompt: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
-  audioDataUrl?: string;
+  status: 'pending' | 'in-progress' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  audioId?: string; // Key into the audio store
+  style?: string; // Image style preset the prompt was generated with
   progressMessage?: string;
   result?: boolean; // True if result is stored in DB
+  pinned?: boolean; // Pinned results are never evicted
+  evicted?: boolean; // The result was removed to free space; the mission can be regenerated
   error?: string;
+  errorType?: AIErrorType;
   createdAt: number;
-  operation?: any;
+  operation?: VideoOperation;
+  sourceMissionId?: string; // Mission whose image this one was edited from
+  referenceImageId?: string; // Starting frame for image-to-video, in the reference image store
+  imageParams?: ImageGenerationParams; // Text-to-image request settings; missing on older missions
+  videoParams?: VideoGenerationParams; // Video request settings; missing on older missions
+  operationStartedAt?: number; // When the video operation was submitted
+  deadlineAt?: number; // Polling gives up after this; the operation can still be resumed
+  completedAt?: number;
+  seen?: boolean; // False until a finished mission's result has been looked at
 }
 
-// Mission Management (localStorage)
-const MISSIONS_STORAGE_KEY = 'peter-pixx-missions';
-const getMissionsFromStorage = (): Mission[] => {
-    try {
-        const missions = localStorage.getItem(MISSIONS_STORAGE_KEY);
-        return missions ? JSON.parse(missions) : [];
-    } catch (error) {
-        console.error("Failed to parse missions from localStorage", error);
-        return [];
-    }
-};
-const saveMissionsToStorage = (missions: Mission[]) => {
-    try {
-        localStorage.setItem(MISSIONS_STORAGE_KEY, JSON.stringify(missions));
-    } catch (error) {
-        console.error("Failed to save missions to localStorage", error);
-    }
-};
-
-const CustomVideoPlayer: React.FC<{ src: string, audioSrc?: string }> = ({ src, audioSrc }) => {
+const CustomVideoPlayer: React.FC<{ sources: string[], audioSrc?: string }> = ({ sources, audioSrc }) => {
+    const [activeIndex, setActiveIndex] = useState(0);
+    const src = sources[activeIndex] ?? sources[0];
     const videoRef = useRef<HTMLVideoElement>(null);
     const audioRef = useRef<HTMLAudioElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -206,6 +173,14 @@ const CustomVideoPlayer: React.FC<{ src: string, audioSrc?: string }> = ({ src,
         if (videoRef.current) videoRef.current.muted = newMuted;
         if (audioRef.current) audioRef.current.muted = newMuted;
     };
+    const selectClip = (index: number) => {
+        if (index === activeIndex) return;
+        setActiveIndex(index);
+        setCurrentTime(0);
+        setAnalysisResult(null);
+        // The new clip starts from the beginning, so bring the soundtrack back with it.
+        if (audioRef.current) audioRef.current.currentTime = 0;
+    };
     const toggleFullScreen = () => {
         if (!document.fullscreenElement) {
             containerRef.current?.requestFullscreen();
@@ -319,6 +294,19 @@ const CustomVideoPlayer: React.FC<{ src: string, audioSrc?: string }> = ({ src,
                         <span className="text-white text-sm font-mono">{new Date(currentTime * 1000).toISOString().substr(14, 5)} / {new Date(duration * 1000).toISOString().substr(14, 5)}</span>
                     </div>
                     <div className="flex items-center gap-4">
+                       {sources.length > 1 && (
+                           <div className="flex items-center gap-1">
+                               {sources.map((_, index) => (
+                                   <button
+                                       key={index}
+                                       onClick={() => selectClip(index)}
+                                       className={`text-sm px-2.5 py-1 rounded-md transition-colors ${index === activeIndex ? 'bg-violet-600 text-white' : 'text-white bg-purple-500/20 hover:bg-purple-500/40'}`}
+                                   >
+                                       Clip {index + 1}
+                                   </button>
+                               ))}
+                           </div>
+                       )}
                        <button onClick={handleAnalyzeFrame} className="text-white flex items-center gap-2 text-sm bg-purple-500/20 px-3 py-1.5 rounded-md hover:bg-purple-500/40 transition-colors disabled:opacity-50" disabled={isAnalyzing}>
                            {isAnalyzing ? <Spinner /> : <AnalyzeFrameIcon className="w-5 h-5" />}
                            <span>Analyze Frame</span>
@@ -340,14 +328,96 @@ const CustomVideoPlayer: React.FC<{ src: string, audioSrc?: string }> = ({ src,
     );
 };
 
-const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mission, onClose }) => {
-    const [resultUrl, setResultUrl] = useState<string | null>(null);
+// Reads a history node's image. The last image loaded is kept until the next
+// one arrives, so callers can tell a pending load by its id.
+const useHistoryImage = (nodeId: string | null, onError: (error: unknown) => void) => {
+    const [loaded, setLoaded] = useState<{ id: string, image: File } | null>(null);
+
+    useEffect(() => {
+        if (!nodeId) {
+            setLoaded(null);
+            return;
+        }
+        let active = true;
+        getHistoryImage(nodeId)
+            .then(image => { if (active) setLoaded({ id: nodeId, image }); })
+            .catch(error => { if (active) onError(error); });
+        return () => { active = false; };
+    }, [nodeId, onError]);
+
+    return loaded;
+};
+
+// Pixels of an image at analysis size, for the histogram and clipping overlay.
+const useImagePixels = (image: Blob | null) => {
+    const [pixels, setPixels] = useState<ImageData | null>(null);
+
+    useEffect(() => {
+        if (!image) {
+            setPixels(null);
+            return;
+        }
+        let active = true;
+        readImagePixels(image, ANALYSIS_MAX_EDGE)
+            .then(result => { if (active) setPixels(result); })
+            .catch(error => console.error("Failed to read the image for analysis", error));
+        return () => { active = false; };
+    }, [image]);
+
+    return pixels;
+};
+
+// An image decoded at full resolution, for the eyedropper. It holds the whole
+// image in memory, so it is only decoded while `enabled`.
+const useImageBitmap = (image: Blob | null, enabled: boolean) => {
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+    useEffect(() => {
+        setBitmap(null);
+        if (!image || !enabled) return;
+        let active = true;
+        let decoded: ImageBitmap | null = null;
+        createImageBitmap(image)
+            .then(result => {
+                decoded = result;
+                if (active) setBitmap(result);
+                else result.close();
+            })
+            .catch(error => console.error("Failed to decode the image for the eyedropper", error));
+        return () => {
+            active = false;
+            decoded?.close();
+        };
+    }, [image, enabled]);
+
+    return bitmap;
+};
+
+const PreviewModal: React.FC<{ mission: Mission, onClose: () => void, onOpenInEditor: (file: File, imageIndex: number) => void, onAnimate: (image: File) => void }> = ({ mission, onClose, onOpenInEditor, onAnimate }) => {
+    const [videoUrls, setVideoUrls] = useState<string[]>([]);
     const [resultUrls, setResultUrls] = useState<string[]>([]);
+    const [audioUrl, setAudioUrl] = useState<string | undefined>();
     const [isLoading, setIsLoading] = useState(true);
     const sliderRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!mission.audioId) return;
+        let url: string | undefined;
+        let active = true;
+        getAudio(mission.audioId).then(audio => {
+            if (!active || !audio) return;
+            url = URL.createObjectURL(audio);
+            setAudioUrl(url);
+        });
+        return () => {
+            active = false;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [mission.audioId]);
     
     useEffect(() => {
         let active = true;
+        let objectUrls: string[] = [];
         const fetchAndSetResult = async () => {
             setIsLoading(true);
             const storedResult = await getResult(mission.id);
@@ -356,10 +426,12 @@ const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mis
                 return;
             }
 
-            if (mission.type === 'video-gen' && storedResult instanceof Blob) {
-                setResultUrl(URL.createObjectURL(storedResult));
-            } else if (mission.type === 'image-gen' && Array.isArray(storedResult)) {
-                setResultUrls(storedResult.map(imgData => `data:image/png;base64,${imgData}`));
+            if (isImageResult(storedResult)) {
+                const { outputMimeType } = getImageParams(mission.imageParams);
+                setResultUrls(storedResult.map(imgData => `data:${outputMimeType};base64,${imgData}`));
+            } else {
+                objectUrls = getVideoClips(storedResult).map(clip => URL.createObjectURL(clip));
+                setVideoUrls(objectUrls);
             }
             setIsLoading(false);
         };
@@ -367,7 +439,7 @@ const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mis
         fetchAndSetResult();
         return () => { 
             active = false;
-            if (resultUrl) URL.revokeObjectURL(resultUrl);
+            objectUrls.forEach(url => URL.revokeObjectURL(url));
         };
     }, [mission]);
 
@@ -375,28 +447,17 @@ const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mis
         const storedResult = await getResult(mission.id);
         if (!storedResult) return;
 
-        let url: string;
-        let filename: string;
-
-        if (storedResult instanceof Blob) {
-            url = URL.createObjectURL(storedResult);
-            filename = `peter-pixx-video-${mission.id}.mp4`;
-        } else if (Array.isArray(storedResult)) {
-            // For now, download the first image. A zip download would be a future improvement.
-            url = `data:image/png;base64,${storedResult[0]}`;
-            filename = `peter-pixx-image-${mission.id}-0.png`;
-        } else {
+        // A single clip downloads as-is; image sets, multiple clips and videos
+        // with audio are zipped.
+        const clips = isImageResult(storedResult) ? [] : getVideoClips(storedResult);
+        if (clips.length === 1 && !mission.audioId) {
+            downloadBlob(clips[0], `peter-pixx-video-${mission.id}.mp4`);
             return;
         }
-
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        if (storedResult instanceof Blob) {
-            URL.revokeObjectURL(url);
+        try {
+            downloadBlob(await exportMissionsAsZip([mission]), `peter-pixx-${mission.id}.zip`);
+        } catch (error) {
+            console.error("Failed to create ZIP download", error);
         }
     };
     
@@ -418,16 +479,32 @@ const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mis
                   <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl font-bold">&times;</button>
                 </div>
                 <p className="text-sm text-purple-200/70 max-h-24 overflow-y-auto pr-2">{mission.prompt}</p>
+                {mission.type === 'image-gen' && (
+                    <p className="text-xs text-purple-300/60 -mt-2">
+                        {describeImageParams(getImageParams(mission.imageParams))}
+                        {mission.imageParams?.negativePrompt && <> &middot; Without: {mission.imageParams.negativePrompt}</>}
+                    </p>
+                )}
+                {mission.type === 'video-gen' && (
+                    <p className="text-xs text-purple-300/60 -mt-2">
+                        {describeVideoParams(getVideoParams(mission.videoParams))}
+                        {mission.videoParams?.negativePrompt && <> &middot; Without: {mission.videoParams.negativePrompt}</>}
+                    </p>
+                )}
                 <div className="flex-grow flex items-center justify-center preview-media-container">
                     {isLoading ? <Spinner /> : (
                         <>
-                            {mission.type === 'video-gen' && resultUrl && <CustomVideoPlayer src={resultUrl} audioSrc={mission.audioDataUrl} />}
+                            {mission.type === 'video-gen' && videoUrls.length > 0 && <CustomVideoPlayer sources={videoUrls} audioSrc={audioUrl} />}
                             {mission.type === 'image-gen' && resultUrls.length > 0 && (
                                 <div className="relative w-full h-full flex items-center justify-center">
                                     <div ref={sliderRef} className="flex overflow-x-auto snap-x snap-mandatory scrollbar-hide w-full h-full">
                                         {resultUrls.map((imgUrl, idx) => (
-                                            <div key={idx} className="flex-shrink-0 w-full snap-center flex items-center justify-center">
+                                            <div key={idx} className="relative flex-shrink-0 w-full snap-center flex items-center justify-center">
                                                 <img src={imgUrl} className="max-w-full max-h-[60vh] object-contain rounded-md" />
+                                                <div className="absolute bottom-3 right-3 flex items-center gap-2">
+                                                    <button onClick={() => dataURLtoFile(imgUrl, `peter-pixx-${mission.id}-${idx + 1}`).then(onAnimate).catch(console.error)} className="flex items-center gap-1.5 text-xs bg-black/60 border border-purple-400/30 text-purple-100 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95"><GenerateVideoIcon className="w-3 h-3" />Animate</button>
+                                                    <button onClick={() => dataURLtoFile(imgUrl, `peter-pixx-${mission.id}-${idx + 1}`).then(file => onOpenInEditor(file, idx)).catch(console.error)} className="flex items-center gap-1.5 text-xs bg-black/60 border border-purple-400/30 text-purple-100 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95"><EditIcon className="w-3 h-3" />Open in Editor</button>
+                                                </div>
                                             </div>
                                         ))}
                                     </div>
@@ -449,11 +526,27 @@ const PreviewModal: React.FC<{ mission: Mission, onClose: () => void }> = ({ mis
 };
 
 
-const ImageGenerationScreen: React.FC<{ onStartMission: (prompt: string) => void, initialPrompt?: string }> = ({ onStartMission, initialPrompt }) => {
-    const [prompt, setPrompt] = useState(initialPrompt || '');
+const IMAGE_STYLES: {[key: string]: string} = {
+    'Cinematic': "cinematic, dramatic lighting, movie still, wide angle, 8k",
+    'Photorealistic': "photorealistic, sharp focus, high detail, 8k, professional photography",
+    'Anime': "vibrant anime style, cel-shaded, detailed background, by Makoto Shinkai",
+    'Digital Art': "digital painting, fantasy, intricate, sharp details, ArtStation HQ",
+    'Low Poly': "low poly, isometric, vibrant colors, simple shapes, 3d render",
+    'Pixel Art': "pixel art, 16-bit, retro gaming aesthetic, detailed sprites"
+};
+
+// Mission prompts include the style suffix; strip it again when editing.
+const stripStyleSuffix = (prompt: string, style?: string) => {
+    const suffix = style && IMAGE_STYLES[style] ? `, ${IMAGE_STYLES[style]}` : '';
+    return suffix && prompt.endsWith(suffix) ? prompt.slice(0, -suffix.length) : prompt;
+};
+
+const ImageGenerationScreen: React.FC<{ onStartMission: (prompt: string, style: string, params: ImageGenerationParams) => void, initialPrompt?: string, initialStyle?: string, initialParams?: ImageGenerationParams }> = ({ onStartMission, initialPrompt, initialStyle, initialParams }) => {
+    const [prompt, setPrompt] = useState(stripStyleSuffix(initialPrompt || '', initialStyle));
+    const [params, setParams] = useState<ImageGenerationParams>(initialParams ?? DEFAULT_IMAGE_PARAMS);
     const [isLoading, setIsLoading] = useState(false);
     const [isEnhancing, setIsEnhancing] = useState(false);
-    const [activeStyle, setActiveStyle] = useState('Photorealistic');
+    const [activeStyle, setActiveStyle] = useState(initialStyle && IMAGE_STYLES[initialStyle] ? initialStyle : 'Photorealistic');
     
     const randomPrompts = [
       "A majestic whale shark swimming through a cosmic nebula, digital art",
@@ -463,20 +556,11 @@ const ImageGenerationScreen: React.FC<{ onStartMission: (prompt: string) => void
       "An anime-style scene of a ramen shop on a rainy night in Tokyo",
     ];
 
-    const styles: {[key: string]: string} = {
-      'Cinematic': "cinematic, dramatic lighting, movie still, wide angle, 8k",
-      'Photorealistic': "photorealistic, sharp focus, high detail, 8k, professional photography",
-      'Anime': "vibrant anime style, cel-shaded, detailed background, by Makoto Shinkai",
-      'Digital Art': "digital painting, fantasy, intricate, sharp details, ArtStation HQ",
-      'Low Poly': "low poly, isometric, vibrant colors, simple shapes, 3d render",
-      'Pixel Art': "pixel art, 16-bit, retro gaming aesthetic, detailed sprites"
-    };
-
     const handleGenerate = async () => {
         if (!prompt.trim()) return;
         setIsLoading(true);
-        const fullPrompt = `${prompt}, ${styles[activeStyle]}`;
-        onStartMission(fullPrompt);
+        const fullPrompt = `${prompt}, ${IMAGE_STYLES[activeStyle]}`;
+        onStartMission(fullPrompt, activeStyle, params);
         setTimeout(() => {
             setIsLoading(false);
             setPrompt('');
@@ -506,12 +590,14 @@ const ImageGenerationScreen: React.FC<{ onStartMission: (prompt: string) => void
             <p className="text-purple-200/70">Describe the image you want to create, pick a style, and let the AI work its magic.</p>
             
             <div className="w-full flex flex-wrap items-center justify-center gap-2 mb-4">
-              {Object.keys(styles).map((name) => (
+              {Object.keys(IMAGE_STYLES).map((name) => (
                 <button key={name} onClick={() => setActiveStyle(name)} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all duration-300 active:scale-95 ${activeStyle === name ? 'bg-violet-600 text-white style-button-active' : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'}`}>
                   {name}
                 </button>
               ))}
             </div>
+
+            <ImageParamsPanel params={params} onChange={setParams} disabled={isLoading} />
             
             <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-3">
                 <input
@@ -539,20 +625,36 @@ const ImageGenerationScreen: React.FC<{ onStartMission: (prompt: string) => void
     );
 };
 
-const VideoGenerationScreen: React.FC<{ onStartMission: (prompt: string, audioDataUrl?: string) => void, initialPrompt?: string }> = ({ onStartMission, initialPrompt }) => {
+interface VideoGenerationScreenProps {
+    onStartMission: (prompt: string, params: VideoGenerationParams, audio?: File) => void;
+    initialPrompt?: string;
+    initialParams?: VideoGenerationParams;
+    referenceImage: Blob | null;
+    onReferenceImageChange: (image: Blob | null) => void;
+}
+
+const VideoGenerationScreen: React.FC<VideoGenerationScreenProps> = ({ onStartMission, initialPrompt, initialParams, referenceImage, onReferenceImageChange }) => {
     const [prompt, setPrompt] = useState(initialPrompt || '');
+    const [params, setParams] = useState<VideoGenerationParams>(initialParams ?? DEFAULT_VIDEO_PARAMS);
     const [isLoading, setIsLoading] = useState(false);
     const [audioFile, setAudioFile] = useState<File | null>(null);
     const audioInputRef = useRef<HTMLInputElement>(null);
+    const [referenceImageUrl, setReferenceImageUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!referenceImage) {
+            setReferenceImageUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(referenceImage);
+        setReferenceImageUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [referenceImage]);
     
     const handleGenerate = async () => {
         if (!prompt.trim()) return;
         setIsLoading(true);
-        let audioDataUrl: string | undefined = undefined;
-        if (audioFile) {
-            audioDataUrl = await fileToDataURL(audioFile);
-        }
-        onStartMission(prompt, audioDataUrl);
+        onStartMission(prompt, params, audioFile ?? undefined);
         setTimeout(() => {
             setIsLoading(false);
             setPrompt('');
@@ -565,6 +667,12 @@ const VideoGenerationScreen: React.FC<{ onStartMission: (prompt: string, audioDa
         const file = e.target.files?.[0];
         if (file) setAudioFile(file);
     };
+
+    const handleReferenceFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onReferenceImageChange(file);
+        e.target.value = '';
+    };
     
     return (
         <div className="w-full max-w-3xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
@@ -588,12 +696,28 @@ const VideoGenerationScreen: React.FC<{ onStartMission: (prompt: string, audioDa
                         {isLoading ? "Starting..." : "Start Mission"}
                     </button>
                 </div>
+
+                <VideoParamsPanel params={params} onChange={setParams} disabled={isLoading} />
                 
                  <label htmlFor="audio-upload" className="w-full flex items-center justify-center gap-3 bg-purple-950/50 border border-dashed border-purple-800/60 rounded-lg p-3 backdrop-blur-xl cursor-pointer hover:border-purple-600 hover:bg-purple-900/50 transition-colors">
                     <MusicIcon className="w-5 h-5 text-purple-400" />
                     <span className="text-sm text-purple-300">{audioFile ? `Audio: ${audioFile.name}` : 'Optional: Add background audio'}</span>
                     <input id="audio-upload" ref={audioInputRef} type="file" className="hidden" accept="audio/*" onChange={handleAudioFileChange} />
                 </label>
+
+                {referenceImageUrl ? (
+                    <div className="w-full flex items-center gap-3 bg-purple-950/50 border border-purple-800/60 rounded-lg p-3 backdrop-blur-xl">
+                        <img src={referenceImageUrl} alt="Starting frame" className="w-16 h-16 object-cover rounded-md" />
+                        <span className="flex-grow text-sm text-purple-300">The video will start from this image.</span>
+                        <button type="button" onClick={() => onReferenceImageChange(null)} disabled={isLoading} className="text-xs text-purple-300/60 hover:text-white transition-colors">Remove</button>
+                    </div>
+                ) : (
+                    <label htmlFor="reference-upload" className="w-full flex items-center justify-center gap-3 bg-purple-950/50 border border-dashed border-purple-800/60 rounded-lg p-3 backdrop-blur-xl cursor-pointer hover:border-purple-600 hover:bg-purple-900/50 transition-colors">
+                        <GenerateImageIcon className="w-5 h-5 text-purple-400" />
+                        <span className="text-sm text-purple-300">Optional: Add a starting image</span>
+                        <input id="reference-upload" type="file" className="hidden" accept="image/*" onChange={handleReferenceFileChange} />
+                    </label>
+                )}
             </form>
              <p className="text-sm text-purple-300/50">Video generation can take several minutes. Your task will run in the background.</p>
         </div>
@@ -604,146 +728,423 @@ const App: React.FC = () => {
   const [view, setView] = useState<View>('start');
   const [missionToEdit, setMissionToEdit] = useState<Mission | null>(null);
   const [previewMission, setPreviewMission] = useState<Mission | null>(null);
-  const [apiError, setApiError] = useState<string | null>(null);
-
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [apiError, setApiError] = useState<ApiErrorNotice | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isResizeOpen, setIsResizeOpen] = useState(false);
+  // The flattened image being exported, while the export dialog is open.
+  const [exportFile, setExportFile] = useState<File | null>(null);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
+  // Local edits run in the browser, so the overlay shouldn't credit the AI.
+  const [isLocalEdit, setIsLocalEdit] = useState<boolean>(false);
+  const [editorSource, setEditorSource] = useState<EditorSource | null>(null);
+  const [videoReference, setVideoReference] = useState<VideoReference | null>(null);
+  const editorAbortController = useRef<AbortController | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [maskFeather, setMaskFeather] = useState<number>(8);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const retouchPromptRef = useRef<HTMLInputElement>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
   const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [localAdjustments, setLocalAdjustments] = useState<LocalAdjustments>(DEFAULT_LOCAL_ADJUSTMENTS);
+  const [straighten, setStraighten] = useState(0);
+  const [layers, setLayers] = useState<Layer[]>(createLayerStack);
+  const [activeLayerId, setActiveLayerId] = useState(PHOTO_LAYER_ID);
+  const [resultsAsLayer, setResultsAsLayer] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
   
   const [cursorPos, setCursorPos] = useState({ x: -100, y: -100 });
   const [missions, setMissions] = useState<Mission[]>([]);
-
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const [isQueuePaused, setIsQueuePaused] = useState<boolean>(getQueuePausedFromStorage);
+  const [schedulerTick, setSchedulerTick] = useState(0);
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
   
   // --- Mission Management ---
+  // Saving is held back until the stored missions have loaded, so the initial
+  // empty list never overwrites them.
+  const [missionsLoaded, setMissionsLoaded] = useState(false);
+
+  const showStorageError = useCallback((error: unknown, onRetry?: () => void) => {
+      console.error(error);
+      const storageError = error instanceof StorageError ? error : new StorageError("Failed to access browser storage.", error);
+      setApiError({ error: storageError, onRetry });
+  }, []);
+
+  // `currentImage` is null while the current edit's image is being read back,
+  // so nothing acts on the previous one; the canvas keeps showing it meanwhile.
+  const loadedCurrentImage = useHistoryImage(editHistory.currentId, showStorageError);
+  const loadedOriginalImage = useHistoryImage(editHistory.rootId, showStorageError);
+  const currentImage = loadedCurrentImage?.id === editHistory.currentId ? loadedCurrentImage.image : null;
+  const displayedImage = loadedCurrentImage?.image ?? null;
+  const originalImage = loadedOriginalImage?.image ?? null;
+
+  // The histogram follows the image on screen, so it steps with undo and redo.
+  const currentPixels = useImagePixels(displayedImage);
+  const [showClipping, setShowClipping] = useState(false);
+  const [isEyedropperActive, setIsEyedropperActive] = useState(false);
+  // Judged for the image on screen, which lags the history while loading.
+  const canCompareOriginal = !loadedCurrentImage || !hasRepositionedPixels(editHistory, loadedCurrentImage.id);
+  const currentBitmap = useImageBitmap(displayedImage, isEyedropperActive);
+  const originalBitmap = useImageBitmap(originalImage, isEyedropperActive && canCompareOriginal);
+  const [samplePoint, setSamplePoint] = useState<{ x: number, y: number } | null>(null);
+
+  // Only the leader tab loads, processes and saves missions; other tabs mirror
+  // the list it broadcasts and send their changes to it.
+  const [isLeader, setIsLeader] = useState(false);
+  const coordinatorRef = useRef<TabCoordinator | null>(null);
+
+  const missionsRef = useRef(missions);
+  missionsRef.current = missions;
+
+  // Changes made before the list has loaded would be wiped out when the
+  // loaded list replaces it, so they are also kept here and replayed on top
+  // of it. The ref flips as the list is set, ahead of the next render.
+  const missionsLoadedRef = useRef(missionsLoaded);
+  const earlyChangesRef = useRef<MissionChange[]>([]);
+
+  const applyChange = useCallback((change: MissionChange) => {
+      if (!missionsLoadedRef.current) earlyChangesRef.current.push(change);
+      setMissions(prev => applyMissionChange(prev, change));
+  }, []);
+
+  useEffect(() => {
+      const coordinator = createTabCoordinator({
+          onBecomeLeader: () => setIsLeader(true),
+          onChange: applyChange,
+          onSyncRequest: () => coordinator.broadcastMissions(missionsRef.current),
+          // The leader's list already has every change it has received.
+          onMissions: (leaderMissions) => {
+              missionsLoadedRef.current = true;
+              earlyChangesRef.current = [];
+              setMissions(leaderMissions);
+              setMissionsLoaded(true);
+          },
+          onQueuePaused: setIsQueuePaused,
+      });
+      coordinatorRef.current = coordinator;
+      return () => {
+          coordinator.close();
+          coordinatorRef.current = null;
+      };
+  }, [applyChange]);
+
+  // A follower that takes over already has the previous leader's list;
+  // otherwise the leader starts from what is stored.
+  useEffect(() => {
+      if (!isLeader || missionsLoaded) return;
+      let active = true;
+      loadMissions()
+          .then(loadedMissions => {
+              if (!active) return;
+              const earlyChanges = earlyChangesRef.current;
+              missionsLoadedRef.current = true;
+              earlyChangesRef.current = [];
+              setMissions(earlyChanges.reduce(applyMissionChange, loadedMissions));
+              setMissionsLoaded(true);
+          })
+          .catch(error => {
+              if (!active) return;
+              showStorageError(error);
+          });
+      return () => { active = false; };
+  }, [isLeader, missionsLoaded, showStorageError]);
+
+  // Missions that were running when the page (or the previous leader tab)
+  // closed are requeued in place, so the queue order and any paused missions
+  // survive. Runs once, when this tab starts processing.
+  useEffect(() => {
+      if (!isLeader || !missionsLoaded) return;
+      setMissions(prev => prev.map(m => m.status === 'in-progress' ? { ...m, status: 'pending' as const, progressMessage: undefined } : m));
+  }, [isLeader, missionsLoaded]);
+
+  const persistMissions = useCallback(() => {
+      saveMissions(missionsRef.current).catch(error => showStorageError(error, persistMissions));
+  }, [showStorageError]);
+
   useEffect(() => {
-      const loadedMissions = getMissionsFromStorage();
-      const unfinishedMissions = loadedMissions.filter(m => m.status === 'in-progress' || m.status === 'pending');
-      if (unfinishedMissions.length > 0) {
-          const requeued = unfinishedMissions.map(m => ({ ...m, status: 'pending' as const }));
-          const completed = loadedMissions.filter(m => m.status !== 'in-progress' && m.status !== 'pending');
-          setMissions([...completed, ...requeued]);
-      } else {
-          setMissions(loadedMissions);
+      if (!isLeader || !missionsLoaded) return;
+      persistMissions();
+      coordinatorRef.current?.broadcastMissions(missions);
+  }, [missions, isLeader, missionsLoaded, persistMissions]);
+
+  // Applies a change locally and, in a follower tab, forwards it to the leader.
+  // The leader's next broadcast replaces the follower's list either way.
+  const changeMissions = useCallback((change: MissionChange) => {
+      applyChange(change);
+      const coordinator = coordinatorRef.current;
+      if (coordinator && !coordinator.isLeader()) coordinator.sendChange(change);
+  }, [applyChange]);
+
+  // Evicts the oldest unpinned results once the configured size or age limit is exceeded.
+  const enforceStoragePolicy = useCallback(async () => {
+      if (!coordinatorRef.current?.isLeader()) return;
+      const policy = getEvictionPolicy(getSettings());
+      if (policy.maxTotalBytes === undefined && policy.maxAgeMs === undefined) return;
+      try {
+          const sizes = await getResultSizes();
+          const evictedIds = selectResultsToEvict(missionsRef.current, sizes, policy);
+          if (evictedIds.length === 0) return;
+          await deleteResults(evictedIds);
+          setMissions(prev => prev.map(m => evictedIds.includes(m.id) ? { ...m, result: false, evicted: true } : m));
+      } catch (error) {
+          showStorageError(error);
       }
-  }, []);
+  }, [showStorageError]);
 
   useEffect(() => {
-      saveMissionsToStorage(missions);
-  }, [missions]);
+      if (isLeader && missionsLoaded) enforceStoragePolicy();
+  }, [isLeader, missionsLoaded, settings, enforceStoragePolicy]);
+
+  useEffect(() => {
+      saveQueuePausedToStorage(isQueuePaused);
+  }, [isQueuePaused]);
   
+  // Abort controllers for missions that are currently being processed. The
+  // scheduler treats this map as the set of running missions.
+  const missionControllers = useRef(new Map<string, AbortController>());
+
   const updateMission = (id: string, updates: Partial<Mission>) => {
-    setMissions(prev => prev.map(m => m.id === id ? { ...m, ...updates } : m));
+    changeMissions({ type: 'update', id, updates });
   };
   
+  // Finished missions stay unread until their result is opened, and raise a
+  // desktop notification when the user has turned them on.
+  const finishMission = (mission: Mission, updates: Partial<Mission>) => {
+    const finished: Mission = { ...mission, ...updates, seen: false };
+    updateMission(mission.id, { ...updates, seen: false });
+    if (getSettings().notificationsEnabled) {
+        notifyMissionFinished(finished, () => {
+            if (finished.status === 'completed') setPreviewMission(finished);
+        });
+    }
+  };
+
+  const handleMarkSeen = useCallback((mission: Mission) => {
+      if (mission.seen === false) changeMissions({ type: 'update', id: mission.id, updates: { seen: true } });
+  }, [changeMissions]);
+
+  useEffect(() => {
+      if (previewMission) handleMarkSeen(previewMission);
+  }, [previewMission, handleMarkSeen]);
+
+  useEffect(() => {
+      updateUnreadBadge(missions.filter(isUnread).length);
+  }, [missions]);
+
   const processMission = useCallback(async (mission: Mission) => {
+    const controller = new AbortController();
+    missionControllers.current.set(mission.id, controller);
+    const { signal } = controller;
     updateMission(mission.id, { status: 'in-progress', progressMessage: 'Starting...' });
 
     try {
         if (mission.type === 'image-gen') {
             updateMission(mission.id, { progressMessage: 'Generating images...' });
-            const images = await generateImageFromPrompt(mission.prompt);
+            const images = await generateImageFromPrompt(mission.prompt, getImageParams(mission.imageParams), signal);
+            throwIfAborted(signal);
             await saveResult(mission.id, images);
-            updateMission(mission.id, { status: 'completed', result: true });
+            finishMission(mission, { status: 'completed', result: true, completedAt: Date.now() });
+            enforceStoragePolicy();
         } else if (mission.type === 'video-gen') {
+            const deadlineMinutes = getVideoDeadlineMinutes(getSettings());
             let operation = mission.operation;
+            let deadlineAt = mission.deadlineAt ?? 0;
             if (!operation) { 
-                updateMission(mission.id, { progressMessage: 'Initializing video...' });
-                operation = await generateVideoFromPrompt(mission.prompt);
-                updateMission(mission.id, { operation });
+                updateMission(mission.id, { progressMessage: 'Submitting video request...' });
+                let referenceImage: File | undefined;
+                if (mission.referenceImageId) {
+                    const image = await getReferenceImage(mission.referenceImageId);
+                    if (!image) throw new Error("The starting image for this mission is no longer stored.");
+                    referenceImage = new File([image], 'reference', { type: image.type });
+                }
+                operation = await generateVideoFromPrompt(mission.prompt, getVideoParams(mission.videoParams), referenceImage, signal);
+                const operationStartedAt = Date.now();
+                deadlineAt = operationStartedAt + getVideoDeadlineMs(getSettings());
+                updateMission(mission.id, { operation, operationStartedAt, deadlineAt });
+            } else if (!operation.done && deadlineAt <= Date.now()) {
+                // Resuming after a timeout (or from a mission saved before
+                // deadlines existed) grants a fresh window on the same operation.
+                deadlineAt = Date.now() + getVideoDeadlineMs(getSettings());
+                updateMission(mission.id, { deadlineAt });
             }
 
-            const loadingMessages = [
-              "Brewing cosmic coffee for the AI...",
-              "Teaching pixels to dance...",
-              "Reticulating splines...",
-              "Composing a digital symphony...",
-              "This can take a few minutes...",
-              "Finalizing the motion picture..."
-            ];
-            let msgIndex = 0;
-
-            while (!operation.done) {
-                updateMission(mission.id, { progressMessage: loadingMessages[msgIndex % loadingMessages.length] });
-                msgIndex++;
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                operation = await checkVideoOperationStatus(operation);
-            }
-            
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (downloadLink) {
-                // FIX: Use process.env.API_KEY instead of import.meta.env.VITE_API_KEY as per guidelines.
-                const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                const blob = await response.blob();
-                await saveResult(mission.id, blob);
-                updateMission(mission.id, { status: 'completed', result: true, progressMessage: "Done!" });
-            } else {
-                throw new Error("Video generation finished, but no URL was returned.");
-            }
+            operation = await pollVideoOperation(operation, {
+                deadlineAt,
+                deadlineMinutes,
+                signal,
+                onPoll: (checks) => updateMission(mission.id, { progressMessage: checks === 0 ? 'Generating video...' : `Generating video (check ${checks + 1})...` }),
+            });
+            // Save the finished operation so a failed download is retried on its own.
+            updateMission(mission.id, { operation, progressMessage: 'Downloading video...' });
+
+            const clips = await downloadVideos(operation, signal);
+            await Promise.all(clips.map(validateVideoBlob));
+            throwIfAborted(signal);
+            await saveResult(mission.id, clips);
+            finishMission(mission, { status: 'completed', result: true, progressMessage: "Done!", completedAt: Date.now() });
+            enforceStoragePolicy();
         }
     } catch (err) {
-        const error = err instanceof Error ? err.message : 'An unknown error occurred.';
-        updateMission(mission.id, { status: 'failed', error });
-        setApiError(`Failed to call the Gemini API: ${error}`);
+        // Whoever aborted (cancel or pause) has already set the new status.
+        if (isAbortError(err) || signal.aborted) return;
+        const error = err instanceof StorageError ? err : classifyError(err);
+        finishMission(mission, { status: 'failed', error: error.message, errorType: error instanceof StorageError ? undefined : error.type });
+        setApiError({
+            error,
+            // Requeue in place; a saved video operation is resumed rather than restarted.
+            onRetry: () => updateMission(mission.id, { status: 'pending', error: undefined, errorType: undefined }),
+            onRephrase: () => {
+                setMissionToEdit(mission);
+                setView(mission.type);
+            },
+        });
+    } finally {
+        missionControllers.current.delete(mission.id);
+        setSchedulerTick(t => t + 1);
     }
-  }, []);
+  }, [enforceStoragePolicy]);
 
+  // A mission cancelled, paused or cleared in another tab stops here too.
   useEffect(() => {
-    const pendingMission = missions.find(m => m.status === 'pending');
-    if (pendingMission) {
-        processMission(pendingMission);
-    }
-  }, [missions, processMission]);
+    missionControllers.current.forEach((controller, id) => {
+        const mission = missions.find(m => m.id === id);
+        if (!mission || mission.status === 'cancelled' || mission.status === 'paused') controller.abort();
+    });
+  }, [missions]);
 
-  const handleStartMission = (type: MissionType, prompt: string, audioDataUrl?: string) => {
+  useEffect(() => {
+    if (!isLeader) return;
+    const running = new Set(missionControllers.current.keys());
+    // processMission registers its controller synchronously, so a mission
+    // picked here is never picked again by a later run of this effect.
+    selectMissionsToStart(missions, running, getSchedulerLimits(settings), isQueuePaused).forEach(processMission);
+  }, [missions, isLeader, settings, isQueuePaused, schedulerTick, processMission]);
+
+  const handleStartMission = (type: MissionType, prompt: string, details: Pick<Mission, 'audioId' | 'style' | 'referenceImageId' | 'imageParams' | 'videoParams'> = {}) => {
       const newMission: Mission = {
           id: `mission_${Date.now()}`,
           type,
           prompt,
           status: 'pending',
           createdAt: Date.now(),
-          audioDataUrl,
+          ...details,
       };
-      setMissions(prev => [...prev, newMission]);
+      changeMissions({ type: 'add', mission: newMission });
       setView('start');
   };
 
+  const handleStartVideoMission = async (prompt: string, videoParams: VideoGenerationParams, audio?: File) => {
+      let audioId: string | undefined;
+      if (audio) {
+          audioId = `audio_${Date.now()}`;
+          try {
+              await saveAudio(audioId, audio);
+          } catch (error) {
+              showStorageError(error, () => handleStartVideoMission(prompt, videoParams, audio));
+              return;
+          }
+      }
+      let referenceImageId = videoReference?.id;
+      if (videoReference && !referenceImageId) {
+          referenceImageId = `reference_${Date.now()}`;
+          try {
+              await saveReferenceImage(referenceImageId, videoReference.image, await createThumbnail(videoReference.image));
+          } catch (error) {
+              showStorageError(error, () => handleStartVideoMission(prompt, videoParams, audio));
+              return;
+          }
+      }
+      setVideoReference(null);
+      handleStartMission('video-gen', prompt, { audioId, referenceImageId, videoParams });
+  };
+
+  const handleCancelMission = (mission: Mission) => {
+      missionControllers.current.get(mission.id)?.abort();
+      updateMission(mission.id, { status: 'cancelled', progressMessage: undefined });
+  };
+
+  const handlePauseMission = (mission: Mission) => {
+      // A running video keeps its saved operation, so resuming picks up the polling.
+      updateMission(mission.id, { status: 'paused', progressMessage: undefined });
+      missionControllers.current.get(mission.id)?.abort();
+  };
+
+  // Also used for failed video missions: a saved operation is polled (or
+  // downloaded) again rather than regenerated.
+  const handleResumeMission = (mission: Mission) => {
+      updateMission(mission.id, { status: 'pending', error: undefined, errorType: undefined });
+  };
+
+  const handleExportMissions = async (selected: Mission[]) => {
+      try {
+          const zip = await exportMissionsAsZip(selected);
+          downloadBlob(zip, `peter-pixx-export-${new Date().toISOString().slice(0, 10)}.zip`);
+      } catch (error) {
+          showStorageError(error);
+      }
+  };
+
+  const handleTogglePin = (mission: Mission) => {
+      updateMission(mission.id, { pinned: !mission.pinned });
+  };
+
+  const handleToggleQueuePaused = () => {
+      setIsQueuePaused(!isQueuePaused);
+      coordinatorRef.current?.broadcastQueuePaused(!isQueuePaused);
+  };
+
+  const handleReorderMission = (draggedId: string, targetId: string) => {
+      changeMissions({ type: 'reorder', draggedId, targetId });
+  };
+
   const handleRegenerateMission = (mission: Mission) => {
-      handleStartMission(mission.type, mission.prompt, mission.audioDataUrl);
+      handleStartMission(mission.type, mission.prompt, { audioId: mission.audioId, style: mission.style, referenceImageId: mission.referenceImageId, imageParams: mission.imageParams, videoParams: mission.videoParams });
   };
 
-  const handleEditMission = (mission: Mission) => {
+  const handleEditMission = async (mission: Mission) => {
+      // Editing keeps the starting frame; it is reused from storage rather than copied.
+      const image = mission.referenceImageId ? await getReferenceImage(mission.referenceImageId) : undefined;
+      setVideoReference(image ? { image, id: mission.referenceImageId } : null);
       setMissionToEdit(mission);
       setView(mission.type);
   };
+
+  const handleAnimateImage = (image: Blob) => {
+      setVideoReference({ image });
+      setMissionToEdit(null);
+      setView('video-gen');
+  };
   
   const handleClearCompletedMissions = async () => {
-      const completedMissions = missions.filter(m => m.status === 'completed' || m.status === 'failed');
+      // Pinned missions are kept; they have to be unpinned before they can be cleared.
+      const isFinished = (m: Mission) => !m.pinned && (m.status === 'completed' || m.status === 'failed' || m.status === 'cancelled');
+      const completedMissions = missions.filter(isFinished);
       try {
-          await Promise.all(completedMissions.map(m => deleteResult(m.id)));
+          await deleteMissionData(completedMissions, missions.filter(m => !isFinished(m)));
       } catch (error) {
-          console.error("Failed to delete some results from DB", error);
+          showStorageError(error, handleClearCompletedMissions);
+          return;
       }
-      setMissions(prev => prev.filter(m => m.status !== 'completed' && m.status !== 'failed'));
+      changeMissions({ type: 'remove', ids: completedMissions.map(m => m.id) });
   };
 
   useEffect(() => {
     if (view === 'start' || view === 'editor') {
         setMissionToEdit(null); // Clear mission to edit when navigating away
+        setVideoReference(null);
     }
   }, [view]);
 
@@ -754,14 +1155,14 @@ const App: React.FC = () => {
   }, []);
   
   useEffect(() => {
-    if (currentImage) {
-      const url = URL.createObjectURL(currentImage);
+    if (displayedImage) {
+      const url = URL.createObjectURL(displayedImage);
       setCurrentImageUrl(url);
       return () => URL.revokeObjectURL(url);
     } else {
       setCurrentImageUrl(null);
     }
-  }, [currentImage]);
+  }, [displayedImage]);
   
   useEffect(() => {
     if (originalImage) {
@@ -774,146 +1175,402 @@ const App: React.FC = () => {
   }, [originalImage]);
 
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // --- Editor sessions ---
+  // The open session is saved shortly after each change, so a reload or crash
+  // loses at most the last half second. Leaving the editor saves right away.
+  const sessionWriter = useRef<SessionWriter | null>(null);
+  const sessionStateRef = useRef<EditorSessionState>({ history: editHistory, activeTab, prompt, source: editorSource, layers });
+  sessionStateRef.current = { history: editHistory, activeTab, prompt, source: editorSource, layers };
+
+  const saveEditorSessionNow = useCallback(() => {
+      sessionWriter.current?.save(sessionStateRef.current).catch(error => showStorageError(error));
+  }, [showStorageError]);
+
+  useEffect(() => {
+      if (!sessionWriter.current || !editHistory.rootId) return;
+      const timer = window.setTimeout(saveEditorSessionNow, 500);
+      return () => clearTimeout(timer);
+  }, [editHistory, activeTab, prompt, editorSource, layers, saveEditorSessionNow]);
+
+  // Slider values belong to the image they were previewed on.
+  useEffect(() => {
+      setLocalAdjustments(DEFAULT_LOCAL_ADJUSTMENTS);
+      setStraighten(0);
+  }, [editHistory.currentId]);
+
+  const canUndo = canUndoHistory(editHistory);
+  const canRedo = canRedoHistory(editHistory);
+
+  // Thumbnails for the history panel are rendered after the node is added.
+  const addHistoryThumbnail = useCallback((nodeId: string, image: File) => {
+    createThumbnail(image, 96)
+        .then(thumbnail => setEditHistory(prev => setNodeThumbnail(prev, nodeId, thumbnail)))
+        .catch(error => console.error("Failed to create history thumbnail", error));
+  }, []);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Hands the image to historyImages.ts before the node is selected, so it is
+  // already in memory when the editor asks for it.
+  const storeHistoryImage = useCallback((sessionId: string, nodeId: string, image: File) => {
+    addHistoryImage(sessionId, nodeId, image).catch(error => showStorageError(error));
+    addHistoryThumbnail(nodeId, image);
+  }, [addHistoryThumbnail, showStorageError]);
+
+  const addImageToHistory = useCallback((newImageFile: File, operation: EditOperation, operationPrompt?: string) => {
+    const sessionId = sessionWriter.current?.id;
+    if (!sessionId) return;
+    const { history: newHistory, node } = addHistoryNode(editHistory, operation, operationPrompt);
+    storeHistoryImage(sessionId, node.id, newImageFile);
+    setEditHistory(newHistory);
     
     // Reset tool-specific states for a clean slate after any modification
     setCrop(undefined);
     setCompletedCrop(undefined);
-    setEditHotspot(null);
-    setDisplayHotspot(null);
     setPrompt('');
-  }, [history, historyIndex]);
+  }, [editHistory, storeHistoryImage]);
 
-  const handleImageUpload = useCallback((file: File) => {
+  const handleImageUpload = useCallback((file: File, source: EditorSource | null = null) => {
+    saveEditorSessionNow();
+    clearHistoryImages();
+    const writer = createSessionWriter({ id: createSessionId(), name: source?.prompt || file.name || 'Untitled edit', createdAt: Date.now() });
+    sessionWriter.current = writer;
     setApiError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
-    setEditHotspot(null);
-    setDisplayHotspot(null);
+    setEditorSource(source);
+    const newHistory = createHistory();
+    storeHistoryImage(writer.id, newHistory.rootId!, file);
+    setEditHistory(newHistory);
+    setLayers(createLayerStack());
+    setActiveLayerId(PHOTO_LAYER_ID);
     setActiveTab('retouch');
     setCrop(undefined);
     setCompletedCrop(undefined);
     setView('editor');
+  }, [storeHistoryImage, saveEditorSessionNow]);
+
+  const handleResumeSession = useCallback(async (sessionId: string) => {
+    try {
+        const stored = await loadEditorSession(sessionId);
+        if (!stored) return;
+        const history = restoreHistory(stored.session, stored.images);
+        if (!history.rootId) throw new StorageError("This session's images are no longer stored.");
+        saveEditorSessionNow();
+        clearHistoryImages();
+        sessionWriter.current = createSessionWriter(stored.session, Object.values(history.nodes));
+        setApiError(null);
+        setEditorSource(stored.session.source);
+        setEditHistory(history);
+        setLayers(restoreLayers(stored.session, stored.images));
+        setActiveLayerId(PHOTO_LAYER_ID);
+        setActiveTab(EDITOR_TABS.find(tab => tab === stored.session.activeTab) ?? 'retouch');
+        setPrompt(stored.session.prompt);
+        setCrop(undefined);
+        setCompletedCrop(undefined);
+        setView('editor');
+    } catch (error) {
+        showStorageError(error);
+    }
+  }, [saveEditorSessionNow, showStorageError]);
+
+  // --- Layers ---
+  // Layers are not part of the edit history: undo and redo change the photo
+  // layer only. Edits that move the photo's pixels (crop, resize, rotate,
+  // flip and straighten) move the layers along with them.
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? null;
+
+  // Stores the image like a history image, so it is saved with the session,
+  // and adds the layer above `belowId`.
+  const addImageLayer = useCallback(async (
+    image: File,
+    kind: ImageLayer['kind'],
+    name: string,
+    place: (size: { width: number, height: number }) => LayerTransform,
+    belowId?: string
+  ) => {
+    const sessionId = sessionWriter.current?.id;
+    if (!sessionId) return;
+    const size = await readImageSize(image);
+    const imageId = `layer_image_${Date.now()}`;
+    addHistoryImage(sessionId, imageId, image).catch(error => showStorageError(error));
+    const layer = createImageLayer(kind, name, imageId, size, place(size));
+    setLayers(prev => insertLayer(prev, layer, belowId));
+    setActiveLayerId(layer.id);
+  }, [showStorageError]);
+
+  // Stickers and logos start at up to a third of the photo; other imported
+  // images as large as fits.
+  const handleImportLayer = useCallback(async (file: File, kind: 'imported' | 'sticker' = 'imported') => {
+    if (!imageSize) return;
+    setApiError(null);
+    try {
+        const image = kind === 'sticker' ? await prepareStickerImage(file) : file;
+        await addImageLayer(image, kind, file.name.replace(/\.[^.]+$/, '') || 'Image', size => fitLayerToDocument(size, imageSize, kind === 'sticker' ? 1 / 3 : 1));
+    } catch (err) {
+        setApiError({ error: classifyError(err), onRetry: () => handleImportLayer(file, kind) });
+        console.error(err);
+    }
+  }, [imageSize, addImageLayer]);
+
+  const handleAddText = useCallback(() => {
+    if (!imageSize) return;
+    const fontSize = Math.max(12, Math.round(Math.min(imageSize.width, imageSize.height) / 10));
+    const layer = createTextLayer('Your text', { ...DEFAULT_TEXT_STYLE, fontSize }, { x: imageSize.width / 2, y: imageSize.height / 2, rotation: 0 });
+    setLayers(prev => insertLayer(prev, layer));
+    setActiveLayerId(layer.id);
+  }, [imageSize]);
+
+  const handleChangeLayer = useCallback((id: string, changes: LayerChanges) => setLayers(prev => updateLayer(prev, id, changes)), []);
+  const handleMoveLayer = useCallback((id: string, direction: 1 | -1) => setLayers(prev => moveLayer(prev, id, direction)), []);
+  const handleRemoveLayer = useCallback((id: string) => {
+    setLayers(prev => removeLayer(prev, id));
+    setActiveLayerId(prev => prev === id ? PHOTO_LAYER_ID : prev);
   }, []);
 
+  // The image as the layers show it; the photo itself when there is nothing
+  // to composite.
+  const getFlattenedImage = useCallback(async (): Promise<File | null> => {
+    if (!currentImage) return null;
+    if (!hasLayerEffects(layers)) return currentImage;
+    const flattened = await flattenLayers(currentImage, layers, getHistoryImage);
+    return new File([flattened], `flattened-${Date.now()}.png`, { type: 'image/png' });
+  }, [currentImage, layers]);
+
   const handleAIGeneration = useCallback(async (
-    generationFn: (file: File, prompt?: string) => Promise<string>,
-    prompt?: string
+    generationFn: (file: File, signal: AbortSignal) => Promise<string>,
+    operation: EditOperation,
+    operationPrompt?: string,
+    onRephrase?: () => void
   ) => {
     if (!currentImage) return;
+    // The retouch mask is painted over the photo, so retouching always edits
+    // the photo. Other edits work on the active image layer; text layers have
+    // no pixels to edit, so with one active they edit the photo too.
+    const targetLayer = operation !== 'retouch' && activeLayer && isImageLayer(activeLayer) ? activeLayer : null;
+    const controller = new AbortController();
+    editorAbortController.current = controller;
     setIsLoading(true);
+    setIsLocalEdit(false);
     setApiError(null);
     try {
-        const resultImageUrl = await generationFn(currentImage, prompt);
-        const newImageFile = dataURLtoFile(resultImageUrl, `ai-edit-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const source = targetLayer ? await getHistoryImage(targetLayer.imageId) : currentImage;
+        const resultImageUrl = await generationFn(source, controller.signal);
+        const newImageFile = await dataURLtoFile(resultImageUrl, `ai-edit-${Date.now()}.png`);
+        // A cancelled request must never land in the edit history.
+        if (controller.signal.aborted) return;
+        // An edited layer can't replace its original, as only the photo has
+        // a history; the result goes into a new layer above it instead.
+        if (targetLayer || resultsAsLayer) {
+            const name = targetLayer ? `${EDIT_OPERATION_LABELS[operation]} of ${targetLayer.name}` : EDIT_OPERATION_LABELS[operation];
+            await addImageLayer(newImageFile, 'ai-edit', name, size => matchLayerPlacement(size, targetLayer, imageSize ?? size), targetLayer?.id ?? PHOTO_LAYER_ID);
+        } else {
+            // A result can come back at another resolution (an upscale always
+            // does); the layers keep covering the same part of the picture.
+            const size = await readImageSize(newImageFile);
+            if (controller.signal.aborted) return;
+            addImageToHistory(newImageFile, operation, operationPrompt);
+            if (imageSize) setLayers(prev => mapLayers(prev, getResizeMapping(imageSize, size)));
+        }
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setApiError(`Failed to call the Gemini API: ${errorMessage}`);
+        if (isAbortError(err) || controller.signal.aborted) return;
+        setApiError({ error: classifyError(err), onRetry: () => handleAIGeneration(generationFn, operation, operationPrompt, onRephrase), onRephrase });
         console.error(err);
     } finally {
-        setIsLoading(false);
+        if (editorAbortController.current === controller) {
+            editorAbortController.current = null;
+            setIsLoading(false);
+        }
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, activeLayer, resultsAsLayer, imageSize, addImageLayer, addImageToHistory]);
+
+  const handleCancelAIGeneration = useCallback(() => {
+    editorAbortController.current?.abort();
+    editorAbortController.current = null;
+    setIsLoading(false);
+  }, []);
 
   const handleGenerate = useCallback(async () => {
-    if (!currentImage || !prompt.trim() || !editHotspot) return;
-    await handleAIGeneration((file) => generateEditedImage(file, prompt, editHotspot));
-  }, [currentImage, prompt, editHotspot, handleAIGeneration]);
+    if (!currentImage || !prompt.trim() || !hasMask || !maskCanvasRef.current) return;
+    // Snapshot the mask so painting during the request can't change the composite.
+    const mask = snapshotMask(maskCanvasRef.current);
+    const feather = maskFeather;
+    await handleAIGeneration(async (file, signal) => {
+        const maskImage = await createMaskImage(mask);
+        const editedImageUrl = await generateEditedImage(file, prompt, maskImage, signal);
+        return compositeMaskedEdit(file, editedImageUrl, mask, feather);
+    }, 'retouch', prompt, () => retouchPromptRef.current?.focus());
+  }, [currentImage, prompt, hasMask, maskFeather, handleAIGeneration]);
+
+  const handleClearMask = useCallback(() => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  }, []);
   
-  const handleApplyFilter = (filterPrompt: string) => handleAIGeneration(generateFilteredImage, filterPrompt);
-  const handleRemoveBackground = () => handleAIGeneration(removeBackgroundImage);
-  const handleUpscaleImage = () => handleAIGeneration(upscaleImage);
-  const handleAutoEnhance = () => handleAIGeneration(balanceImageColors, 'Auto-adjust the colors, contrast, and brightness for a balanced, natural look.');
-  const handleBalanceColors = (colorPrompt: string) => handleAIGeneration(balanceImageColors, colorPrompt);
+  const handleApplyFilter = (filterPrompt: string) => handleAIGeneration((file, signal) => generateFilteredImage(file, filterPrompt, signal), 'filter', filterPrompt);
+  const handleRemoveBackground = () => handleAIGeneration(removeBackgroundImage, 'remove-background');
+  const handleUpscaleImage = () => handleAIGeneration(upscaleImage, 'upscale');
+  // Runs an edit made in the browser under the same overlay as AI edits.
+  // Cancel aborts `signal`, and the edit must check it before changing
+  // anything, so a cancelled edit never lands in the history.
+  const runLocalEdit = useCallback(async (edit: (signal: AbortSignal) => Promise<void>, onRetry: () => void) => {
+    const controller = new AbortController();
+    editorAbortController.current = controller;
+    setIsLoading(true);
+    setIsLocalEdit(true);
+    setApiError(null);
+    try {
+        await edit(controller.signal);
+    } catch (err) {
+        if (isAbortError(err) || controller.signal.aborted) return;
+        setApiError({ error: classifyError(err), onRetry });
+        console.error(err);
+    } finally {
+        if (editorAbortController.current === controller) {
+            editorAbortController.current = null;
+            setIsLoading(false);
+        }
+    }
+  }, []);
+
+  // Local adjustments are rendered in the browser and never reach the AI provider.
+  const handleApplyLocalAdjustments = useCallback(() => {
+    if (!currentImage || isDefaultAdjustments(localAdjustments)) return;
+    return runLocalEdit(async (signal) => {
+        const adjusted = await renderLocalAdjustments(currentImage, localAdjustments);
+        if (signal.aborted) return;
+        addImageToHistory(new File([adjusted], `adjusted-${Date.now()}.png`, { type: 'image/png' }), 'adjust', describeLocalAdjustments(localAdjustments));
+    }, handleApplyLocalAdjustments);
+  }, [currentImage, localAdjustments, runLocalEdit, addImageToHistory]);
+
+  const handleAutoEnhance = () => handleAIGeneration((file, signal) => balanceImageColors(file, 'Auto-adjust the colors, contrast, and brightness for a balanced, natural look.', signal), 'adjust', 'Auto enhance');
+  const handleBalanceColors = (colorPrompt: string) => handleAIGeneration((file, signal) => balanceImageColors(file, colorPrompt, signal), 'adjust', colorPrompt);
   
+  // The selection is kept in percent of the image, so the crop is taken in
+  // the image's own pixels however large it is drawn on screen.
+  const cropRect = useMemo(() => completedCrop && imageSize && completedCrop.width > 0 && completedCrop.height > 0
+      ? percentToPixelRect(completedCrop, imageSize.width, imageSize.height)
+      : null, [completedCrop, imageSize]);
+
+  const handleCropRectChange = useCallback((rect: PixelRect) => {
+    if (!imageSize) return;
+    const percentCrop: PercentCrop = {
+        unit: '%',
+        x: rect.x / imageSize.width * 100,
+        y: rect.y / imageSize.height * 100,
+        width: rect.width / imageSize.width * 100,
+        height: rect.height / imageSize.height * 100,
+    };
+    setCrop(percentCrop);
+    setCompletedCrop(percentCrop);
+  }, [imageSize]);
+
   const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) return;
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(image, completedCrop.x * scaleX, completedCrop.y * scaleY, completedCrop.width * scaleX, completedCrop.height * scaleY, 0, 0, completedCrop.width, completedCrop.height);
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
-  }, [completedCrop, addImageToHistory]);
+    if (!currentImage || !cropRect) return;
+    return runLocalEdit(async (signal) => {
+        const cropped = await cropImage(currentImage, cropRect);
+        if (signal.aborted) return;
+        addImageToHistory(new File([cropped], `cropped-${Date.now()}.png`, { type: 'image/png' }), 'crop', `${cropRect.width} × ${cropRect.height} px`);
+        setLayers(prev => mapLayers(prev, getCropMapping(cropRect)));
+    }, handleApplyCrop);
+  }, [currentImage, cropRect, runLocalEdit, addImageToHistory]);
+
+  const handleResize = useCallback((width: number, height: number, method: ResamplingMethod) => {
+    if (!currentImage || !imageSize) return;
+    return runLocalEdit(async (signal) => {
+        const resized = await resizeImage(currentImage, width, height, method);
+        if (signal.aborted) return;
+        const methodLabel = RESAMPLING_METHODS.find(option => option.method === method)?.label ?? method;
+        addImageToHistory(new File([resized], `resized-${Date.now()}.png`, { type: 'image/png' }), 'resize', `${width} × ${height} px, ${methodLabel}`);
+        setLayers(prev => mapLayers(prev, getResizeMapping(imageSize, { width, height })));
+    }, () => handleResize(width, height, method));
+  }, [currentImage, imageSize, runLocalEdit, addImageToHistory]);
+
+  const handleTransform = useCallback((transform: ImageTransform) => {
+    if (!currentImage || !imageSize) return;
+    return runLocalEdit(async (signal) => {
+        const transformed = await transformImage(currentImage, transform);
+        if (signal.aborted) return;
+        addImageToHistory(new File([transformed], `${transform.type}-${Date.now()}.png`, { type: 'image/png' }), transform.type, describeTransform(transform));
+        setLayers(prev => mapLayers(prev, getTransformMapping(imageSize.width, imageSize.height, transform)));
+    }, () => handleTransform(transform));
+  }, [currentImage, imageSize, runLocalEdit, addImageToHistory]);
+
+  const handleFlattenLayers = useCallback(() => {
+    if (!currentImage) return;
+    return runLocalEdit(async (signal) => {
+        const flattened = await flattenLayers(currentImage, layers, getHistoryImage);
+        if (signal.aborted) return;
+        addImageToHistory(new File([flattened], `flattened-${Date.now()}.png`, { type: 'image/png' }), 'flatten', `${layers.length} layers`);
+        setLayers(createLayerStack());
+        setActiveLayerId(PHOTO_LAYER_ID);
+    }, handleFlattenLayers);
+  }, [currentImage, layers, runLocalEdit, addImageToHistory]);
+
+  // Export, Save as Mission and Animate all take the image with its layers.
+  const withFlattenedImage = useCallback(async (use: (image: File) => void | Promise<void>) => {
+    try {
+        const image = await getFlattenedImage();
+        if (image) await use(image);
+    } catch (err) {
+        setApiError({ error: classifyError(err) });
+        console.error(err);
+    }
+  }, [getFlattenedImage]);
 
   const handleApplyCropSuggestion = (suggestion: CropSuggestion) => {
-    if (!imgRef.current) return;
-    const { width, height } = imgRef.current;
-    const newCrop: PixelCrop = {
-        unit: 'px',
-        x: (suggestion.crop.x / 100) * width,
-        y: (suggestion.crop.y / 100) * height,
-        width: (suggestion.crop.width / 100) * width,
-        height: (suggestion.crop.height / 100) * height
-    };
+    const newCrop: PercentCrop = { unit: '%', ...suggestion.crop };
     setCompletedCrop(newCrop);
-    setCrop({
-        unit: '%',
-        ...suggestion.crop
-    });
+    setCrop(newCrop);
   };
 
-  const handleUndo = useCallback(() => canUndo && setHistoryIndex(historyIndex - 1), [canUndo, historyIndex]);
-  const handleRedo = useCallback(() => canRedo && setHistoryIndex(historyIndex + 1), [canRedo, historyIndex]);
-  const handleReset = useCallback(() => history.length > 0 && setHistoryIndex(0), [history]);
+  const handleUndo = useCallback(() => setEditHistory(undoHistory), []);
+  const handleRedo = useCallback(() => setEditHistory(redoHistory), []);
+  const handleReset = useCallback(() => setEditHistory(resetToRoot), []);
+  const handleSelectHistoryNode = useCallback((id: string) => setEditHistory(prev => selectHistoryNode(prev, id)), []);
 
   const handleBackToHome = useCallback(() => {
-      setHistory([]);
-      setHistoryIndex(-1);
+      handleCancelAIGeneration();
+      saveEditorSessionNow();
+      sessionWriter.current = null;
+      clearHistoryImages();
+      setEditHistory(EMPTY_HISTORY);
       setApiError(null);
       setPrompt('');
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setEditorSource(null);
       setView('start');
-  }, []);
+  }, [handleCancelAIGeneration, saveEditorSessionNow]);
 
-  const handleDownload = useCallback(() => {
-      if (currentImage) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `peter-pixx-edit.png`;
-          link.click();
-          URL.revokeObjectURL(link.href);
-      }
-  }, [currentImage]);
   
-  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch') return;
-    const img = e.currentTarget;
-    const rect = img.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    setDisplayHotspot({ x: offsetX, y: offsetY });
-    setEditHotspot({ x: Math.round(offsetX * (img.naturalWidth / img.clientWidth)), y: Math.round(offsetY * (img.naturalHeight / img.clientHeight)) });
+  // Saves the current editor image as a completed image mission, linked to
+  // the mission it was opened from.
+  const handleSaveAsMission = useCallback(async (image: File) => {
+      const mission: Mission = {
+          id: `mission_${Date.now()}`,
+          type: 'image-gen',
+          prompt: editorSource?.prompt ?? 'Edited image',
+          status: 'completed',
+          createdAt: Date.now(),
+          result: true,
+          sourceMissionId: editorSource?.missionId,
+          imageParams: { ...DEFAULT_IMAGE_PARAMS, numberOfImages: 1, outputMimeType: image.type === 'image/jpeg' ? 'image/jpeg' : 'image/png' },
+      };
+      try {
+          await saveResult(mission.id, [await blobToBase64(image)]);
+      } catch (error) {
+          showStorageError(error, () => handleSaveAsMission(image));
+          return;
+      }
+      changeMissions({ type: 'add', mission });
+      setPreviewMission(mission);
+  }, [editorSource, showStorageError, changeMissions]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setImageSize(prev => prev?.width === naturalWidth && prev?.height === naturalHeight ? prev : { width: naturalWidth, height: naturalHeight });
   };
-  
+
   const tabsRef = useRef<(HTMLButtonElement | null)[]>([]);
   const sliderRef = useRef<HTMLSpanElement>(null);
   useEffect(() => {
-    const activeTabIndex = ['retouch', 'crop', 'adjust', 'filters'].indexOf(activeTab);
+    const activeTabIndex = EDITOR_TABS.indexOf(activeTab);
     const activeTabEl = tabsRef.current[activeTabIndex];
     if (sliderRef.current && activeTabEl) {
         sliderRef.current.style.width = `${activeTabEl.offsetWidth}px`;
@@ -923,87 +1580,156 @@ const App: React.FC = () => {
 
 
   const renderContent = () => {
-    if (view === 'start') return <StartScreen missions={missions} onFileSelect={(files) => files && handleImageUpload(files[0])} onNavigate={setView} />;
-    if (view === 'image-gen') return <ImageGenerationScreen onStartMission={(prompt) => handleStartMission('image-gen', prompt)} initialPrompt={missionToEdit?.prompt} />;
-    if (view === 'video-gen') return <VideoGenerationScreen onStartMission={(prompt, audio) => handleStartMission('video-gen', prompt, audio)} initialPrompt={missionToEdit?.prompt} />;
+    if (view === 'start') return <StartScreen missions={missions} onFileSelect={(files) => files && handleImageUpload(files[0])} onNavigate={setView} onResumeSession={handleResumeSession} onSessionError={showStorageError} />;
+    if (view === 'image-gen') return <ImageGenerationScreen onStartMission={(prompt, style, imageParams) => handleStartMission('image-gen', prompt, { style, imageParams })} initialPrompt={missionToEdit?.prompt} initialStyle={missionToEdit?.style} initialParams={missionToEdit?.imageParams} />;
+    if (view === 'video-gen') return <VideoGenerationScreen onStartMission={handleStartVideoMission} initialPrompt={missionToEdit?.prompt} initialParams={missionToEdit?.videoParams} referenceImage={videoReference?.image ?? null} onReferenceImageChange={(image) => setVideoReference(image ? { image } : null)} />;
           
     if (!currentImageUrl) {
-        return <StartScreen missions={missions} onFileSelect={(files) => files && handleImageUpload(files[0])} onNavigate={setView} />;
+        return <StartScreen missions={missions} onFileSelect={(files) => files && handleImageUpload(files[0])} onNavigate={setView} onResumeSession={handleResumeSession} onSessionError={showStorageError} />;
     }
 
     const imageDisplay = (
-      <div className="relative">
-        {originalImageUrl && <img key={originalImageUrl} src={originalImageUrl} alt="Original" className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none" />}
-        <img ref={imgRef} key={currentImageUrl} src={currentImageUrl} alt="Current" onClick={handleImageClick} className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-300 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-none' : ''}`} />
+      <div
+        className={`relative ${isEyedropperActive ? 'cursor-crosshair' : ''}`}
+        onPointerMove={isEyedropperActive ? (e) => imgRef.current && setSamplePoint(getRelativeImagePoint(imgRef.current, e.clientX, e.clientY)) : undefined}
+        onPointerLeave={() => setSamplePoint(null)}
+      >
+        <EditorCanvas
+          layers={layers}
+          photoUrl={currentImageUrl}
+          photoRef={imgRef}
+          onPhotoLoad={handleImageLoad}
+          documentSize={imageSize}
+          activeLayerId={activeLayerId}
+          onSelectLayer={setActiveLayerId}
+          onChangeLayer={handleChangeLayer}
+          canTransform={activeTab !== 'retouch' && !isEyedropperActive && !isComparing && !isLoading}
+          photoOverlay={activeTab === 'adjust' && currentImage && !isDefaultAdjustments(localAdjustments) && (
+            <AdjustmentPreview image={currentImage} adjustments={localAdjustments} className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none" />
+          )}
+          className={`transition-opacity duration-300 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'}`}
+        >
+          {showClipping && currentPixels && (
+            <ClippingOverlay pixels={currentPixels} className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none" />
+          )}
+          {activeTab === 'retouch' && imageSize && (
+            <MaskCanvas key={currentImageUrl} canvasRef={maskCanvasRef} width={imageSize.width} height={imageSize.height} tool={maskTool} brushSize={brushSize} disabled={isLoading || isComparing || isEyedropperActive} onMaskChange={setHasMask} />
+          )}
+        </EditorCanvas>
+        {originalImageUrl && <img key={originalImageUrl} src={originalImageUrl} alt="Original" className={`absolute inset-0 w-full h-full object-contain rounded-xl pointer-events-none transition-opacity duration-300 ease-in-out ${isComparing ? 'opacity-100' : 'opacity-0'}`} />}
       </div>
     );
     
     const cropImageElement = (
-      <img ref={imgRef} key={`crop-${currentImageUrl}`} src={currentImageUrl} alt="Crop this image" className="w-full h-auto object-contain max-h-[60vh] rounded-xl" />
+      <img ref={imgRef} key={`crop-${currentImageUrl}`} src={currentImageUrl} alt="Crop this image" onLoad={handleImageLoad} className="w-full h-auto object-contain max-h-[60vh] rounded-xl" />
     );
 
+    const sourceMission = editorSource && missions.find(m => m.id === editorSource.missionId);
+
     return (
-      <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
-        <div className="relative w-full shadow-2xl rounded-xl overflow-hidden bg-black/40">
-            {isLoading && (
-                <div className="absolute inset-0 bg-black/80 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in backdrop-blur-sm">
-                    <Spinner />
-                    <p className="text-purple-200/80">The AI is working its magic...</p>
-                </div>
-            )}
+      <div className="w-full max-w-[1400px] mx-auto flex flex-col lg:flex-row items-start justify-center gap-6 animate-fade-in">
+        <div className="w-full max-w-5xl flex flex-col items-center gap-6 min-w-0">
+          {editorSource && (
+            <div className="w-full flex items-center gap-3 bg-purple-950/50 border border-purple-800/50 rounded-xl px-4 py-3 backdrop-blur-2xl">
+              <GenerateImageIcon className="w-5 h-5 text-purple-400 flex-shrink-0" />
+              <p className="flex-grow text-sm text-purple-200/80 truncate" title={editorSource.prompt}>
+                <span className="font-semibold text-purple-100">Generated from: </span>{editorSource.prompt}
+              </p>
+              {sourceMission && (
+                <button onClick={() => setPreviewMission(sourceMission)} className="flex-shrink-0 text-xs text-purple-300/70 hover:text-white transition-colors">View mission</button>
+              )}
+            </div>
+          )}
+          <div className="relative w-full shadow-2xl rounded-xl overflow-hidden bg-black/40">
+              {isLoading && (
+                  <div className="absolute inset-0 bg-black/80 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in backdrop-blur-sm">
+                      <Spinner />
+                      <p className="text-purple-200/80">{isLocalEdit ? 'Applying your edit...' : 'The AI is working its magic...'}</p>
+                      <button onClick={handleCancelAIGeneration} className="text-center bg-purple-900/60 border border-purple-500/30 text-purple-100 font-semibold py-2 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95 text-sm">Cancel</button>
+                  </div>
+              )}
             
-            {activeTab === 'crop' ? (
-              <ReactCrop crop={crop} onChange={c => setCrop(c)} onComplete={c => setCompletedCrop(c)} aspect={aspect} className="max-h-[60vh] flex justify-center">
-                {cropImageElement}
-              </ReactCrop>
-            ) : imageDisplay }
-
-            {displayHotspot && !isLoading && activeTab === 'retouch' && (
-                <div className="edit-hotspot-display" style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}/>
-            )}
-        </div>
+              {activeTab === 'crop' && straighten !== 0 && imageSize ? (
+                <div className="relative overflow-hidden rounded-xl mx-auto w-fit">
+                  <img
+                    src={currentImageUrl}
+                    alt="Straighten preview"
+                    onLoad={handleImageLoad}
+                    className="block max-w-full max-h-[60vh]"
+                    style={{ transform: `rotate(${straighten}deg) scale(${1 / getStraightenScale(imageSize.width, imageSize.height, straighten)})` }}
+                  />
+                  <div className="absolute inset-0 pointer-events-none" style={STRAIGHTEN_GRID_STYLE} />
+                </div>
+              ) : activeTab === 'crop' ? (
+                <ReactCrop crop={crop} onChange={(_, percentCrop) => setCrop(percentCrop)} onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)} aspect={aspect} className="max-h-[60vh] flex justify-center">
+                  {cropImageElement}
+                </ReactCrop>
+              ) : imageDisplay }
+          </div>
         
-        <div className="editor-tabs-container w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-2 flex items-center justify-around gap-2 backdrop-blur-2xl animated-panel">
-            <span ref={sliderRef} className="editor-tab-slider"></span>
-            {(['retouch', 'crop', 'adjust', 'filters'] as Tab[]).map((tab, i) => (
-                 <button 
-                    key={tab} 
-                    // FIX: The ref callback function should not return a value. The assignment was being implicitly returned, causing a type mismatch. Wrapping the assignment in curly braces fixes this by giving the arrow function a void return type.
-                    ref={el => { tabsRef.current[i] = el; }}
-                    onClick={() => setActiveTab(tab)} 
-                    className={`relative w-full z-10 capitalize font-semibold py-3 px-5 rounded-lg transition-colors duration-300 text-base focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-950 ${activeTab === tab ? 'text-white' : 'text-purple-200/70 hover:text-white'}`}
-                  >
-                    {tab}
-                </button>
-            ))}
-        </div>
+          <div className="editor-tabs-container w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-2 flex items-center justify-around gap-2 backdrop-blur-2xl animated-panel">
+              <span ref={sliderRef} className="editor-tab-slider"></span>
+              {EDITOR_TABS.map((tab, i) => (
+                   <button 
+                      key={tab} 
+                      // FIX: The ref callback function should not return a value. The assignment was being implicitly returned, causing a type mismatch. Wrapping the assignment in curly braces fixes this by giving the arrow function a void return type.
+                      ref={el => { tabsRef.current[i] = el; }}
+                      onClick={() => setActiveTab(tab)} 
+                      className={`relative w-full z-10 capitalize font-semibold py-3 px-5 rounded-lg transition-colors duration-300 text-base focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-950 ${activeTab === tab ? 'text-white' : 'text-purple-200/70 hover:text-white'}`}
+                    >
+                      {tab}
+                  </button>
+              ))}
+          </div>
         
-        <div className="w-full">
-            {activeTab === 'retouch' && (
-                <div className="flex flex-col items-center gap-4">
-                    <p className="text-md text-purple-200/70">{editHotspot ? 'Now, describe the change you want to make.' : 'First, click a point on the image to edit.'}</p>
-                    <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-3">
-                        <input type="text" value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={editHotspot ? "e.g., 'remove the scar'" : "First click a point on the image"} className="flex-grow bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-4 text-lg focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60" disabled={isLoading || !editHotspot} />
-                        <button type="submit" className="gradient-button bg-gradient-to-br from-violet-600 to-purple-600 text-white font-bold py-4 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-gray-700 disabled:to-gray-600 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !prompt.trim() || !editHotspot}>
-                            Generate
-                        </button>
-                    </form>
-                </div>
-            )}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} onApplyCropSuggestion={handleApplyCropSuggestion} currentImage={currentImage} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onRemoveBackground={handleRemoveBackground} onUpscale={handleUpscaleImage} onAutoEnhance={handleAutoEnhance} onBalanceColors={handleBalanceColors} isLoading={isLoading} />}
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
-        </div>
+          <div className="w-full">
+              {activeTab === 'retouch' && <RetouchPanel tool={maskTool} onToolChange={setMaskTool} brushSize={brushSize} onBrushSizeChange={setBrushSize} feather={maskFeather} onFeatherChange={setMaskFeather} onClearMask={handleClearMask} hasMask={hasMask} prompt={prompt} onPromptChange={setPrompt} promptInputRef={retouchPromptRef} onGenerate={handleGenerate} isLoading={isLoading} />}
+              {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} onApplyCropSuggestion={handleApplyCropSuggestion} onTransform={handleTransform} straighten={straighten} onStraightenChange={setStraighten} imageSize={imageSize} cropRect={cropRect} onCropRectChange={handleCropRectChange} onOpenResize={() => setIsResizeOpen(true)} currentImage={currentImage} isLoading={isLoading} isCropping={!!cropRect} />}
+              {activeTab === 'adjust' && <AdjustmentPanel adjustments={localAdjustments} onAdjustmentsChange={setLocalAdjustments} onApplyAdjustments={handleApplyLocalAdjustments} onRemoveBackground={handleRemoveBackground} onUpscale={handleUpscaleImage} onAutoEnhance={handleAutoEnhance} onBalanceColors={handleBalanceColors} isLoading={isLoading} />}
+              {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
+              {activeTab === 'text' && <TextPanel textLayer={activeLayer?.kind === 'text' ? activeLayer : null} onAddText={handleAddText} onAddSticker={(file) => handleImportLayer(file, 'sticker')} onChangeLayer={handleChangeLayer} isLoading={isLoading} />}
+          </div>
         
-        <div className="flex flex-wrap items-center justify-center gap-3 mt-4 w-full">
-            <button onClick={handleUndo} disabled={!canUndo} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Undo last action"><UndoIcon className="w-4 h-4 mr-2" />Undo</button>
-            <button onClick={handleRedo} disabled={!canRedo} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Redo last action"><RedoIcon className="w-4 h-4 mr-2" />Redo</button>
-            {canUndo && <button onMouseDown={() => setIsComparing(true)} onMouseUp={() => setIsComparing(false)} onMouseLeave={() => setIsComparing(false)} onTouchStart={() => setIsComparing(true)} onTouchEnd={() => setIsComparing(false)} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm" aria-label="Press and hold to see original image"><EyeIcon className="w-4 h-4 mr-2" />Compare</button>}
-            <button onClick={handleReset} disabled={!canUndo} className="text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed">Reset</button>
-            <div className="flex-grow"></div>
-            <button onClick={handleBackToHome} className="text-center bg-purple-900/60 border border-purple-500/30 text-purple-100 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95 text-base">Upload New</button>
-            <button onClick={handleDownload} className="gradient-button bg-gradient-to-br from-pink-500 to-rose-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-rose-500/20 hover:shadow-xl hover:shadow-rose-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base">Download Image</button>
+          <div className="flex flex-wrap items-center justify-center gap-3 mt-4 w-full">
+              <button onClick={handleUndo} disabled={!canUndo} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Undo last action"><UndoIcon className="w-4 h-4 mr-2" />Undo</button>
+              <button onClick={handleRedo} disabled={!canRedo} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Redo last action"><RedoIcon className="w-4 h-4 mr-2" />Redo</button>
+              {canUndo && <button onMouseDown={() => setIsComparing(true)} onMouseUp={() => setIsComparing(false)} onMouseLeave={() => setIsComparing(false)} onTouchStart={() => setIsComparing(true)} onTouchEnd={() => setIsComparing(false)} className="flex items-center justify-center text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm" aria-label="Press and hold to see original image"><EyeIcon className="w-4 h-4 mr-2" />Compare</button>}
+              <button onClick={handleReset} disabled={!canUndo} className="text-center bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed">Reset</button>
+              <div className="flex-grow"></div>
+              <button onClick={() => withFlattenedImage(handleAnimateImage)} disabled={isLoading} className="flex items-center justify-center text-center bg-purple-900/60 border border-purple-500/30 text-purple-100 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"><GenerateVideoIcon className="w-4 h-4 mr-2" />Animate</button>
+              <button onClick={() => withFlattenedImage(handleSaveAsMission)} disabled={isLoading} className="text-center bg-purple-900/60 border border-purple-500/30 text-purple-100 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed">Save as Mission</button>
+              <button onClick={handleBackToHome} className="text-center bg-purple-900/60 border border-purple-500/30 text-purple-100 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/80 active:scale-95 text-base">Upload New</button>
+              <button onClick={() => withFlattenedImage(setExportFile)} disabled={!currentImage} className="gradient-button bg-gradient-to-br from-pink-500 to-rose-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-rose-500/20 hover:shadow-xl hover:shadow-rose-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none">Export Image</button>
+          </div>
         </div>
+        <aside className="w-full lg:w-64 flex-shrink-0 lg:sticky lg:top-24 flex flex-col gap-4">
+          <HistogramPanel
+            current={currentPixels}
+            currentBitmap={currentBitmap}
+            originalBitmap={originalBitmap}
+            canCompareOriginal={canCompareOriginal}
+            imageSize={imageSize}
+            showClipping={showClipping}
+            onToggleClipping={() => setShowClipping(prev => !prev)}
+            isEyedropperActive={isEyedropperActive}
+            onToggleEyedropper={() => setIsEyedropperActive(prev => !prev)}
+            samplePoint={samplePoint}
+          />
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            onSelectLayer={setActiveLayerId}
+            onChangeLayer={handleChangeLayer}
+            onMoveLayer={handleMoveLayer}
+            onRemoveLayer={handleRemoveLayer}
+            onImportImage={handleImportLayer}
+            onFlatten={handleFlattenLayers}
+            resultsAsLayer={resultsAsLayer}
+            onResultsAsLayerChange={setResultsAsLayer}
+            disabled={isLoading}
+          />
+          <HistoryPanel history={editHistory} onSelectNode={handleSelectHistoryNode} disabled={isLoading} />
+        </aside>
       </div>
     );
   };
@@ -1015,17 +1741,54 @@ const App: React.FC = () => {
         <div className="dot" style={{ left: `${cursorPos.x}px`, top: `${cursorPos.y}px` }} />
       </div>
 
-      <ApiErrorToast error={apiError} onClose={() => setApiError(null)} />
-
-      {previewMission && <PreviewModal mission={previewMission} onClose={() => setPreviewMission(null)} />}
+      <ApiErrorToast notice={apiError} onClose={() => setApiError(null)} onOpenSettings={() => setIsSettingsOpen(true)} />
+      {isResizeOpen && imageSize && <ResizeDialog imageSize={imageSize} onApply={handleResize} onClose={() => setIsResizeOpen(false)} />}
+      {exportFile && (
+        <ExportDialog
+          image={exportFile}
+          originalName={originalImage?.name ?? 'image'}
+          lastOperation={EDIT_OPERATION_LABELS[getCurrentNode(editHistory)?.operation ?? 'original']}
+          onClose={() => setExportFile(null)}
+        />
+      )}
+      {isSettingsOpen && <SettingsModal onClose={() => setIsSettingsOpen(false)} onSaved={setSettings} />}
+      {isStorageOpen && <StorageModal missions={missions} onClose={() => setIsStorageOpen(false)} onTogglePin={handleTogglePin} onPolicySaved={setSettings} />}
+
+      {previewMission && (
+        <PreviewModal
+          mission={previewMission}
+          onClose={() => setPreviewMission(null)}
+          onOpenInEditor={(file, imageIndex) => {
+            setPreviewMission(null);
+            handleCancelAIGeneration();
+            handleImageUpload(file, { missionId: previewMission.id, prompt: previewMission.prompt, imageIndex });
+          }}
+          onAnimate={(image) => {
+            setPreviewMission(null);
+            handleAnimateImage(image);
+          }}
+        />
+      )}
       <Header 
         currentView={view} 
         onBackToHome={handleBackToHome} 
         missions={missions} 
         onClearCompleted={handleClearCompletedMissions} 
         onRegenerateMission={handleRegenerateMission}
+        onCancelMission={handleCancelMission}
+        onPauseMission={handlePauseMission}
+        onResumeMission={handleResumeMission}
+        onReorderMission={handleReorderMission}
+        isQueuePaused={isQueuePaused}
+        onToggleQueuePaused={handleToggleQueuePaused}
+        isProcessingElsewhere={missionsLoaded && !isLeader}
         onEditMission={handleEditMission}
         onSetPreview={setPreviewMission}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenStorage={() => setIsStorageOpen(true)}
+        onTogglePin={handleTogglePin}
+        onExportMissions={handleExportMissions}
+        onMarkSeen={handleMarkSeen}
       />
       <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${view === 'start' || view === 'image-gen' || view === 'video-gen' ? 'items-center' : 'items-start'}`}>
         {renderContent()}
@@ -5,8 +5,12 @@
 
 import React, { useState } from 'react';
 import { RemoveBackgroundIcon, UpscaleIcon, ColorBalanceIcon } from './icons';
+import { DEFAULT_LOCAL_ADJUSTMENTS, isDefaultAdjustments, LOCAL_ADJUSTMENT_SLIDERS, type LocalAdjustments } from '../services/localAdjustments';
 
 interface AdjustmentPanelProps {
+  adjustments: LocalAdjustments;
+  onAdjustmentsChange: (adjustments: LocalAdjustments) => void;
+  onApplyAdjustments: () => void;
   onRemoveBackground: () => void;
   onUpscale: () => void;
   onAutoEnhance: () => void;
@@ -14,7 +18,7 @@ interface AdjustmentPanelProps {
   isLoading: boolean;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onRemoveBackground, onUpscale, onAutoEnhance, onBalanceColors, isLoading }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ adjustments, onAdjustmentsChange, onApplyAdjustments, onRemoveBackground, onUpscale, onAutoEnhance, onBalanceColors, isLoading }) => {
   const [colorPrompt, setColorPrompt] = useState('');
 
   const handleColorBalanceApply = () => {
@@ -27,7 +31,30 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onRemoveBackground, o
   return (
     <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-2xl animated-panel">
       <h3 className="text-lg font-semibold text-center text-purple-200">Adjustments</h3>
-      
+
+      {/* Computed in the browser; the AI tools below are separate. */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+        {LOCAL_ADJUSTMENT_SLIDERS.map(({ key, label, min, max }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-purple-200/80" onDoubleClick={() => onAdjustmentsChange({ ...adjustments, [key]: DEFAULT_LOCAL_ADJUSTMENTS[key] })}>
+            <span className="w-24">{label}</span>
+            <input type="range" min={min} max={max} value={adjustments[key]} onChange={(e) => onAdjustmentsChange({ ...adjustments, [key]: Number(e.target.value) })} disabled={isLoading} className="flex-grow accent-purple-500" />
+            <span className="w-10 text-right font-mono">{adjustments[key]}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-3">
+        <button onClick={() => onAdjustmentsChange(DEFAULT_LOCAL_ADJUSTMENTS)} disabled={isLoading || isDefaultAdjustments(adjustments)} className="text-sm text-purple-300/70 hover:text-white transition-colors disabled:opacity-40">Reset</button>
+        <button
+          onClick={onApplyAdjustments}
+          disabled={isLoading || isDefaultAdjustments(adjustments)}
+          className="bg-purple-800 text-white font-bold py-2 px-5 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-900/40 hover:bg-purple-700 active:scale-95 text-base disabled:bg-purple-800/50 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          Apply Adjustments
+        </button>
+      </div>
+
+      <div className="border-t border-purple-800/50" />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
         <button
           onClick={onRemoveBackground}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { applyLocalAdjustments, PREVIEW_MAX_EDGE, readImagePixels, type LocalAdjustments } from '../services/localAdjustments';
+
+interface AdjustmentPreviewProps {
+  image: File;
+  adjustments: LocalAdjustments;
+  className?: string;
+}
+
+// Live preview of the local adjustments, rendered on a downscaled copy of the
+// image so dragging a slider stays smooth. Redraws at most once per frame.
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ image, adjustments, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [proxy, setProxy] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    readImagePixels(image, PREVIEW_MAX_EDGE)
+      .then(pixels => { if (active) setProxy(pixels); })
+      .catch(error => console.error("Failed to prepare the adjustment preview", error));
+    return () => { active = false; };
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!proxy || !canvas) return;
+    const frame = requestAnimationFrame(() => {
+      const pixels = new ImageData(new Uint8ClampedArray(proxy.data), proxy.width, proxy.height);
+      applyLocalAdjustments(pixels, adjustments);
+      canvas.width = pixels.width;
+      canvas.height = pixels.height;
+      canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [proxy, adjustments]);
+
+  return <canvas ref={canvasRef} className={`${className ?? ''} ${proxy ? '' : 'invisible'}`} />;
+};
+
+export default AdjustmentPreview;
@@ -4,22 +4,71 @@
 */
 import React from 'react';
 import { ErrorIcon } from './icons';
+import { AIServiceError, type AIErrorType } from '../services/aiErrors';
+import type { StorageError } from '../services/storage';
+
+// An error to show together with the context actions that make sense for it.
+export interface ApiErrorNotice {
+    error: AIServiceError | StorageError;
+    onRetry?: () => void;
+    onRephrase?: () => void;
+}
 
 interface ApiErrorToastProps {
-    error: string | null;
+    notice: ApiErrorNotice | null;
     onClose: () => void;
+    onOpenSettings: () => void;
 }
 
-const ApiErrorToast: React.FC<ApiErrorToastProps> = ({ error, onClose }) => {
-    if (!error) return null;
+const ERROR_TITLES: Record<AIErrorType, string> = {
+    'safety-block': 'Blocked by safety filters',
+    'finish-reason': 'Generation stopped early',
+    'text-instead-of-image': 'No image returned',
+    'rate-limit': 'Rate limit reached',
+    'network': 'Connection problem',
+    'invalid-key': 'Invalid API key',
+    'timeout': 'Request timed out',
+    'unknown': 'Something went wrong',
+};
+
+const REPHRASE_TYPES: AIErrorType[] = ['safety-block', 'finish-reason', 'text-instead-of-image'];
+const SETTINGS_TYPES: AIErrorType[] = ['invalid-key', 'rate-limit'];
+
+const ApiErrorToast: React.FC<ApiErrorToastProps> = ({ notice, onClose, onOpenSettings }) => {
+    if (!notice) return null;
+    const { error, onRetry, onRephrase } = notice;
+    // Storage failures carry no AI error type; they only offer a retry.
+    const type = error instanceof AIServiceError ? error.type : null;
+    const title = error instanceof AIServiceError ? ERROR_TITLES[error.type] : (error.quotaExceeded ? 'Storage is full' : 'Could not save');
+
+    const handleAction = (action: () => void) => {
+        onClose();
+        action();
+    };
+
+    const actionClassName = "text-xs font-semibold py-1.5 px-3 rounded-md bg-purple-900/60 border border-purple-500/30 text-purple-100 hover:bg-purple-800/80 transition-colors";
 
     return (
         <div className="api-error-toast" role="alert">
-            <div className="flex items-center">
+            <div className="flex items-start">
                 <ErrorIcon className="w-6 h-6 text-red-400 mr-3 flex-shrink-0" />
-                <p className="text-base text-gray-200">{error}</p>
+                <div className="flex flex-col gap-2">
+                    <p className="text-base font-semibold text-gray-100">{title}</p>
+                    <p className="text-sm text-gray-300">{error.message}</p>
+                    <div className="flex flex-wrap gap-2">
+                        {onRetry && type !== 'invalid-key' && type !== 'safety-block' && (
+                            <button onClick={() => handleAction(onRetry)} className={actionClassName}>Retry</button>
+                        )}
+                        {onRephrase && type && REPHRASE_TYPES.includes(type) && (
+                            <button onClick={() => handleAction(onRephrase)} className={actionClassName}>Rephrase prompt</button>
+                        )}
+                        {type && SETTINGS_TYPES.includes(type) && (
+                            <button onClick={() => handleAction(onOpenSettings)} className={actionClassName}>Open settings</button>
+                        )}
+                    </div>
+                </div>
             </div>
-            <button onClick={onClose} className="text-gray-400 hover:text-white ml-4" aria-label="Close">
+            <button onClick={onClose} className="text-gray-400 hover:text-white ml-4 self-start" aria-label="Close">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { createClippingOverlay } from '../services/imageAnalysis';
+
+interface ClippingOverlayProps {
+  pixels: ImageData;
+  className?: string;
+}
+
+// Marks the clipped highlights and shadows of an image; laid over it.
+const ClippingOverlay: React.FC<ClippingOverlayProps> = ({ pixels, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    canvas.getContext('2d')?.putImageData(createClippingOverlay(pixels), 0, 0);
+  }, [pixels]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default ClippingOverlay;
@@ -3,9 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { SparklesIcon } from './icons';
-import { getAICropSuggestions } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { FlipHorizontalIcon, FlipVerticalIcon, RotateLeftIcon, RotateRightIcon, SparklesIcon } from './icons';
+import { getAICropSuggestions } from '../services/aiProvider';
+import { isAbortError } from '../services/abort';
+import { MAX_STRAIGHTEN_DEGREES, type ImageTransform, type PixelRect } from '../services/imageTransforms';
 import type { CropSuggestion } from '../App';
 import Spinner from './Spinner';
 
@@ -13,46 +15,136 @@ interface CropPanelProps {
   onApplyCrop: () => void;
   onSetAspect: (aspect: number | undefined) => void;
   onApplyCropSuggestion: (suggestion: CropSuggestion) => void;
+  onTransform: (transform: ImageTransform) => void;
+  straighten: number;
+  onStraightenChange: (degrees: number) => void;
+  imageSize: { width: number, height: number } | null;
+  cropRect: PixelRect | null;
+  onCropRectChange: (rect: PixelRect) => void;
+  onOpenResize: () => void;
   currentImage: File | null;
   isLoading: boolean;
   isCropping: boolean;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+type Ratio = { width: number, height: number };
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, onApplyCropSuggestion, currentImage, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
+const ASPECT_PRESETS: { ratio: Ratio, hint?: string }[] = [
+  { ratio: { width: 1, height: 1 }, hint: 'Square post' },
+  { ratio: { width: 4, height: 5 }, hint: 'Portrait post' },
+  { ratio: { width: 9, height: 16 }, hint: 'Story / Reel' },
+  { ratio: { width: 16, height: 9 }, hint: 'Video / YouTube' },
+  { ratio: { width: 3, height: 2 }, hint: 'Photo print' },
+  { ratio: { width: 4, height: 3 } },
+  { ratio: { width: 191, height: 100 }, hint: 'Link preview' },
+];
+
+const formatRatio = ({ width, height }: Ratio) => width === 191 && height === 100 ? '1.91:1' : `${width}:${height}`;
+
+const chipClassName = (isActive: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+  isActive
+  ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+  : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+}`;
+
+const iconButtonClassName = 'flex items-center justify-center gap-2 bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+// A number input that only reports its value on Enter or when it loses
+// focus, so clamping doesn't fight the user mid-typing.
+const PixelField: React.FC<{ label: string, value: number | undefined, onCommit: (value: number) => void, disabled: boolean }> = ({ label, value, onCommit, disabled }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() && Number.isFinite(Number(draft))) onCommit(Math.round(Number(draft)));
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+      {label}
+      <input
+        type="number"
+        value={draft ?? value ?? ''}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        disabled={disabled}
+        className="w-full bg-purple-950/50 border border-purple-800 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+      />
+    </label>
+  );
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, onApplyCropSuggestion, onTransform, straighten, onStraightenChange, imageSize, cropRect, onCropRectChange, onOpenResize, currentImage, isLoading, isCropping }) => {
+  const [ratio, setRatio] = useState<Ratio | null>(null);
+  const [customWidth, setCustomWidth] = useState('');
+  const [customHeight, setCustomHeight] = useState('');
   const [isFetchingIdeas, setIsFetchingIdeas] = useState(false);
   const [cropSuggestions, setCropSuggestions] = useState<CropSuggestion[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight suggestion request when the panel goes away.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+  const handleRatioChange = (next: Ratio | null) => {
+    setRatio(next);
+    onSetAspect(next ? next.width / next.height : undefined);
+  };
+
+  const handleApplyCustomRatio = () => {
+    const width = Number(customWidth);
+    const height = Number(customHeight);
+    if (width > 0 && height > 0) handleRatioChange({ width, height });
+  };
 
   const handleGetAIIdeas = async () => {
     if (!currentImage) return;
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsFetchingIdeas(true);
     setCropSuggestions([]);
     setError(null);
     try {
-        const suggestions = await getAICropSuggestions(currentImage);
+        const suggestions = await getAICropSuggestions(currentImage, controller.signal);
         setCropSuggestions(suggestions);
     } catch (err) {
+        if (isAbortError(err)) return;
         const message = err instanceof Error ? err.message : "An unknown error occurred.";
         setError(`Could not get suggestions. ${message}`);
         console.error(err);
     } finally {
-        setIsFetchingIdeas(false);
+        if (abortControllerRef.current === controller) setIsFetchingIdeas(false);
+    }
+  };
+
+  // Typed values are in image pixels. With a ratio selected, changing one side
+  // changes the other to match; everything is kept inside the image.
+  const handleCropFieldChange = (field: keyof PixelRect, value: number) => {
+    if (!imageSize) return;
+    const next = { ...(cropRect ?? { x: 0, y: 0, width: imageSize.width, height: imageSize.height }), [field]: value };
+    next.x = Math.min(Math.max(0, next.x), imageSize.width - 1);
+    next.y = Math.min(Math.max(0, next.y), imageSize.height - 1);
+    const maxWidth = imageSize.width - next.x;
+    const maxHeight = imageSize.height - next.y;
+    // With a locked ratio, the typed side is clamped so the derived side fits
+    // too, and the derived side is worked out from the clamped value.
+    if (ratio && field === 'height') {
+      next.height = Math.min(Math.max(1, next.height), maxHeight, Math.floor(maxWidth * ratio.height / ratio.width));
+      next.width = Math.round(next.height * ratio.width / ratio.height);
+    } else if (ratio) {
+      next.width = Math.min(Math.max(1, next.width), maxWidth, Math.floor(maxHeight * ratio.width / ratio.height));
+      next.height = Math.round(next.width * ratio.height / ratio.width);
     }
+    next.width = Math.min(Math.max(1, next.width), maxWidth);
+    next.height = Math.min(Math.max(1, next.height), maxHeight);
+    onCropRectChange(next);
   };
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'free', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const isPresetActive = (preset: Ratio) => ratio?.width === preset.width && ratio?.height === preset.height;
+  const isCustomRatio = !!ratio && !ASPECT_PRESETS.some(preset => isPresetActive(preset.ratio));
+  const isStraightening = straighten !== 0;
 
   return (
     <>
@@ -73,30 +165,75 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, onApply
         </div>
       )}
       <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-2xl mt-4 animated-panel">
-          <h3 className="text-lg font-semibold text-purple-200">Crop Image</h3>
-          <p className="text-sm text-purple-200/60 -mt-2">Click and drag on the image to select a crop area.</p>
-          
-          <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-purple-200">Crop &amp; Rotate</h3>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 w-full">
+              <button onClick={() => onTransform({ type: 'rotate', quarterTurns: -1 })} disabled={isLoading || isStraightening} className={iconButtonClassName}><RotateLeftIcon className="w-4 h-4" />Rotate left</button>
+              <button onClick={() => onTransform({ type: 'rotate', quarterTurns: 1 })} disabled={isLoading || isStraightening} className={iconButtonClassName}><RotateRightIcon className="w-4 h-4" />Rotate right</button>
+              <button onClick={() => onTransform({ type: 'flip', axis: 'horizontal' })} disabled={isLoading || isStraightening} className={iconButtonClassName}><FlipHorizontalIcon className="w-4 h-4" />Flip horizontal</button>
+              <button onClick={() => onTransform({ type: 'flip', axis: 'vertical' })} disabled={isLoading || isStraightening} className={iconButtonClassName}><FlipVerticalIcon className="w-4 h-4" />Flip vertical</button>
+          </div>
+
+          <button onClick={onOpenResize} disabled={isLoading || isStraightening || !imageSize} className={`${iconButtonClassName} w-full`}>
+              Resize image&hellip; {imageSize && <span className="font-mono text-purple-300/60">{imageSize.width} &times; {imageSize.height}</span>}
+          </button>
+
+          <div className="flex flex-col gap-2 w-full">
+              <label className="flex items-center gap-2 text-sm text-purple-200/80" onDoubleClick={() => onStraightenChange(0)}>
+                  Straighten
+                  <input type="range" min={-MAX_STRAIGHTEN_DEGREES} max={MAX_STRAIGHTEN_DEGREES} step="0.1" value={straighten} onChange={(e) => onStraightenChange(Number(e.target.value))} disabled={isLoading} className="flex-grow accent-purple-500" />
+                  <span className="w-14 text-right font-mono">{straighten.toFixed(1)}&deg;</span>
+              </label>
+              {isStraightening && (
+                  <div className="flex items-center justify-end gap-3">
+                      <p className="text-xs text-purple-300/60 mr-auto">The edges are cropped so no empty corners show.</p>
+                      <button onClick={() => onStraightenChange(0)} disabled={isLoading} className="text-sm text-purple-300/70 hover:text-white transition-colors disabled:opacity-40">Reset</button>
+                      <button onClick={() => onTransform({ type: 'straighten', degrees: straighten })} disabled={isLoading} className={iconButtonClassName}>Apply Straighten</button>
+                  </div>
+              )}
+          </div>
+
+          <div className="border-t border-purple-800/50 w-full" />
+
+          <p className="text-sm text-purple-200/60">{isStraightening ? 'Apply or reset the straightening to select a crop area.' : 'Click and drag on the image to select a crop area.'}</p>
+
+          <div className="flex flex-wrap items-center justify-center gap-2">
               <span className="text-sm font-medium text-purple-200/80">Aspect Ratio:</span>
-              {aspects.map(({ name, value }) => (
+              <button onClick={() => handleRatioChange(null)} disabled={isLoading} className={chipClassName(!ratio)}>free</button>
+              {ASPECT_PRESETS.map(preset => (
+                  <button key={formatRatio(preset.ratio)} onClick={() => handleRatioChange(preset.ratio)} disabled={isLoading} title={preset.hint} className={chipClassName(isPresetActive(preset.ratio))}>
+                      {formatRatio(preset.ratio)}
+                  </button>
+              ))}
               <button
-                  key={name}
-                  onClick={() => handleAspectChange(name, value)}
-                  disabled={isLoading}
-                  className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-                  activeAspect === name 
-                  ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20' 
-                  : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
-                  }`}
+                  onClick={() => ratio && handleRatioChange({ width: ratio.height, height: ratio.width })}
+                  disabled={isLoading || !ratio || ratio.width === ratio.height}
+                  className="px-3 py-1.5 rounded-md text-sm font-semibold text-purple-300/70 hover:text-white transition-colors disabled:opacity-40"
+                  title="Swap portrait and landscape"
               >
-                  {name}
+                  &#8645; Swap
               </button>
+          </div>
+
+          <form onSubmit={(e) => { e.preventDefault(); handleApplyCustomRatio(); }} className="flex items-center gap-2 text-sm text-purple-200/80">
+              <span>Custom:</span>
+              <input type="number" min="0" step="any" value={customWidth} onChange={(e) => setCustomWidth(e.target.value)} disabled={isLoading} placeholder="W" className="w-16 bg-purple-950/50 border border-purple-800 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-purple-500 focus:outline-none" />
+              <span>:</span>
+              <input type="number" min="0" step="any" value={customHeight} onChange={(e) => setCustomHeight(e.target.value)} disabled={isLoading} placeholder="H" className="w-16 bg-purple-950/50 border border-purple-800 text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-purple-500 focus:outline-none" />
+              <button type="submit" disabled={isLoading || !(Number(customWidth) > 0 && Number(customHeight) > 0)} className={chipClassName(isCustomRatio)}>
+                  {isCustomRatio && ratio ? formatRatio(ratio) : 'Set'}
+              </button>
+          </form>
+
+          <div className="grid grid-cols-4 gap-2 w-full max-w-md">
+              {(['x', 'y', 'width', 'height'] as const).map(field => (
+                  <PixelField key={field} label={field === 'x' || field === 'y' ? field.toUpperCase() : field === 'width' ? 'W' : 'H'} value={cropRect?.[field]} onCommit={(value) => handleCropFieldChange(field, value)} disabled={isLoading || isStraightening || !imageSize} />
               ))}
           </div>
 
           <button
               onClick={onApplyCrop}
-              disabled={isLoading || !isCropping}
+              disabled={isLoading || !isCropping || isStraightening}
               className="gradient-button w-full max-w-xs mt-2 bg-gradient-to-br from-pink-500 to-rose-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-rose-500/20 hover:shadow-xl hover:shadow-rose-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-800/50 disabled:to-purple-700/50 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
           >
               Apply Crop
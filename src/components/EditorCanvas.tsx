@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { getHistoryImage } from '../services/historyImages';
+import { drawTextLayer, getLayerSize, isPlacedLayer, loadTextLayerFont, resizeLayer, type Layer, type LayerChanges, type PlacedLayer, type TextLayer } from '../services/layers';
+
+interface EditorCanvasProps {
+  layers: Layer[];
+  photoUrl: string;
+  photoRef: React.Ref<HTMLImageElement>;
+  onPhotoLoad: (e: React.SyntheticEvent<HTMLImageElement>) => void;
+  // The photo's size in pixels, which is the size of the document.
+  documentSize: { width: number, height: number } | null;
+  activeLayerId: string;
+  onSelectLayer: (id: string) => void;
+  onChangeLayer: (id: string, changes: LayerChanges) => void;
+  canTransform: boolean;
+  // Drawn over the photo only, at its place in the stack.
+  photoOverlay?: React.ReactNode;
+  // Tool overlays, drawn over every layer.
+  children?: React.ReactNode;
+  className?: string;
+}
+
+const LayerImage: React.FC<{ imageId: string, name: string }> = ({ imageId, name }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    let objectUrl: string | null = null;
+    getHistoryImage(imageId)
+      .then(image => {
+        if (!active) return;
+        objectUrl = URL.createObjectURL(image);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.error(`Failed to load layer image ${imageId}`, error));
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId]);
+
+  return url ? <img src={url} alt={name} draggable={false} className="block w-full h-full" /> : null;
+};
+
+// Drawn at document resolution by the same code flattenLayers() uses.
+const TextLayerCanvas: React.FC<{ layer: TextLayer, fontsVersion: number }> = ({ layer, fontsVersion }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let active = true;
+    const draw = () => { if (active && canvasRef.current) drawTextLayer(canvasRef.current, layer); };
+    draw();
+    loadTextLayerFont(layer).then(draw);
+    return () => { active = false; };
+  }, [layer, fontsVersion]);
+
+  return <canvas ref={canvasRef} className="block w-full h-full" />;
+};
+
+// Percentages of the document, so layers keep their place however large the
+// document is drawn. Rotation is about the center, as in flattenLayers().
+const layerBox = (layer: PlacedLayer, documentSize: { width: number, height: number }): React.CSSProperties => {
+  const { width, height } = getLayerSize(layer);
+  return {
+    left: `${(layer.x - width / 2) / documentSize.width * 100}%`,
+    top: `${(layer.y - height / 2) / documentSize.height * 100}%`,
+    width: `${width / documentSize.width * 100}%`,
+    height: `${height / documentSize.height * 100}%`,
+    transform: layer.rotation ? `rotate(${layer.rotation}deg)` : undefined,
+  };
+};
+
+// Whether a point in document pixels falls on the layer, rotation included.
+const hitsLayer = (layer: PlacedLayer, x: number, y: number) => {
+  const { width, height } = getLayerSize(layer);
+  const angle = -layer.rotation * Math.PI / 180;
+  const dx = x - layer.x;
+  const dy = y - layer.y;
+  const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+  return Math.abs(localX) <= width / 2 && Math.abs(localY) <= height / 2;
+};
+
+const normalizeDegrees = (degrees: number) => ((degrees + 540) % 360) - 180;
+
+type Drag =
+  | { type: 'move', layer: PlacedLayer, pointerX: number, pointerY: number }
+  | { type: 'scale', layer: PlacedLayer, distance: number }
+  | { type: 'rotate', layer: PlacedLayer, angle: number };
+
+// Shows the layer stack the way flattenLayers() composites it: bottom first,
+// each with its opacity and blend mode. Pressing on a layer selects and
+// moves it; elsewhere the active layer moves. The active layer's handles
+// scale and rotate it, with Shift snapping the angle to 15°.
+const EditorCanvas: React.FC<EditorCanvasProps> = ({
+  layers, photoUrl, photoRef, onPhotoLoad, documentSize, activeLayerId, onSelectLayer, onChangeLayer, canTransform, photoOverlay, children, className,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  // Text is measured in its font, so every box is redone when one arrives.
+  const [fontsVersion, setFontsVersion] = useState(0);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+  const transformable = canTransform && documentSize && activeLayer && isPlacedLayer(activeLayer) && activeLayer.visible ? activeLayer : null;
+
+  useEffect(() => {
+    const handleFontsLoaded = () => setFontsVersion(version => version + 1);
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, []);
+
+  // A pointer position in document pixels.
+  const toDocumentPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !documentSize) return { x: 0, y: 0 };
+    return { x: (clientX - rect.left) * documentSize.width / rect.width, y: (clientY - rect.top) * documentSize.height / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canTransform || !documentSize || e.button !== 0) return;
+    const point = toDocumentPoint(e.clientX, e.clientY);
+    const hit = layers.filter(isPlacedLayer).reverse().find(layer => layer.visible && hitsLayer(layer, point.x, point.y));
+    const layer = hit ?? transformable;
+    if (!layer) return;
+    if (layer.id !== activeLayerId) onSelectLayer(layer.id);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { type: 'move', layer, pointerX: point.x, pointerY: point.y };
+  };
+
+  const startHandleDrag = (e: React.PointerEvent<HTMLDivElement>, type: 'scale' | 'rotate') => {
+    const container = containerRef.current;
+    if (!transformable || !container || e.button !== 0) return;
+    e.stopPropagation();
+    container.setPointerCapture(e.pointerId);
+    const point = toDocumentPoint(e.clientX, e.clientY);
+    const dx = point.x - transformable.x;
+    const dy = point.y - transformable.y;
+    dragRef.current = type === 'scale'
+      ? { type, layer: transformable, distance: Math.max(1, Math.hypot(dx, dy)) }
+      : { type, layer: transformable, angle: Math.atan2(dy, dx) * 180 / Math.PI };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toDocumentPoint(e.clientX, e.clientY);
+    const { layer } = drag;
+    if (drag.type === 'move') {
+      onChangeLayer(layer.id, { x: Math.round(layer.x + point.x - drag.pointerX), y: Math.round(layer.y + point.y - drag.pointerY) });
+    } else if (drag.type === 'scale') {
+      onChangeLayer(layer.id, resizeLayer(layer, Math.hypot(point.x - layer.x, point.y - layer.y) / drag.distance));
+    } else {
+      const angle = Math.atan2(point.y - layer.y, point.x - layer.x) * 180 / Math.PI;
+      const rotation = normalizeDegrees(layer.rotation + angle - drag.angle);
+      onChangeLayer(layer.id, { rotation: e.shiftKey ? normalizeDegrees(Math.round(rotation / 15) * 15) : Math.round(rotation * 10) / 10 });
+    }
+  };
+
+  const handlePointerUp = () => { dragRef.current = null; };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative isolate mx-auto max-w-full touch-none ${transformable ? 'cursor-move' : ''} ${className ?? ''}`}
+      style={documentSize ? { aspectRatio: `${documentSize.width} / ${documentSize.height}`, width: `min(100%, calc(60vh * ${documentSize.width / documentSize.height}))` } : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {layers.map((layer, index) => {
+        const style: React.CSSProperties = {
+          zIndex: index,
+          opacity: layer.opacity,
+          mixBlendMode: layer.blendMode,
+          visibility: layer.visible ? 'visible' : 'hidden',
+        };
+        if (!isPlacedLayer(layer)) {
+          return (
+            <div key={layer.id} className="relative" style={style}>
+              <img ref={photoRef} key={photoUrl} src={photoUrl} alt="Current" onLoad={onPhotoLoad} draggable={false} className="block w-full h-auto object-contain max-h-[60vh] rounded-xl" />
+              {photoOverlay}
+            </div>
+          );
+        }
+        if (!documentSize) return null;
+        return (
+          <div key={layer.id} className="absolute pointer-events-none" style={{ ...style, ...layerBox(layer, documentSize) }}>
+            {layer.kind === 'text'
+              ? <TextLayerCanvas layer={layer} fontsVersion={fontsVersion} />
+              : <LayerImage imageId={layer.imageId} name={layer.name} />}
+          </div>
+        );
+      })}
+      <div className="absolute inset-0" style={{ zIndex: layers.length }}>
+        {children}
+      </div>
+      {transformable && documentSize && (
+        <div className="absolute border border-dashed border-violet-300/80 pointer-events-none" style={{ ...layerBox(transformable, documentSize), zIndex: layers.length + 1 }}>
+          <div className="absolute left-1/2 -top-6 w-px h-6 bg-violet-300/80" />
+          <div
+            onPointerDown={(e) => startHandleDrag(e, 'rotate')}
+            className="absolute left-1/2 -top-8 -ml-1.5 w-3 h-3 rounded-full bg-violet-400 border border-white pointer-events-auto cursor-grab"
+            title="Drag to rotate"
+          />
+          <div
+            onPointerDown={(e) => startHandleDrag(e, 'scale')}
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-violet-400 border border-white pointer-events-auto cursor-nwse-resize"
+            title="Drag to scale"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditorCanvas;
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import Spinner from './Spinner';
+import { downloadBlob } from '../services/missionExport';
+import { formatBytes } from '../services/storage';
+import {
+    EXPORT_FORMATS, FILENAME_TOKENS, exportImage, formatExportFilename, getExportSettingsFromStorage, saveExportSettingsToStorage,
+    type ExportedImage, type ExportSettings,
+} from '../services/imageExport';
+
+interface ExportDialogProps {
+    image: File;
+    originalName: string;
+    lastOperation: string;
+    onClose: () => void;
+}
+
+const inputClassName = 'bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, originalName, lastOperation, onClose }) => {
+    const [settings, setSettings] = useState<ExportSettings>(getExportSettingsFromStorage);
+    const [exported, setExported] = useState<ExportedImage | null>(null);
+    const [isEncoding, setIsEncoding] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // The estimate is the real encode, redone shortly after the settings
+    // stop changing; downloading reuses it.
+    useEffect(() => {
+        let active = true;
+        setIsEncoding(true);
+        const timer = window.setTimeout(() => {
+            exportImage(image, settings)
+                .then(result => {
+                    if (!active) return;
+                    setExported(result);
+                    setError(null);
+                })
+                .catch(err => {
+                    if (!active) return;
+                    setExported(null);
+                    setError(err instanceof Error ? err.message : "Failed to encode the image.");
+                })
+                .finally(() => { if (active) setIsEncoding(false); });
+        }, 300);
+        return () => {
+            active = false;
+            clearTimeout(timer);
+        };
+    }, [image, settings]);
+
+    const update = (changes: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+    const filename = exported ? formatExportFilename(settings, { name: originalName, operation: lastOperation, width: exported.width, height: exported.height }) : '';
+
+    const handleDownload = () => {
+        if (!exported || isEncoding) return;
+        downloadBlob(exported.blob, filename);
+        saveExportSettingsToStorage(settings);
+        onClose();
+    };
+
+    return (
+        <div className="preview-overlay" onClick={onClose}>
+            <div className="preview-content" style={{ maxWidth: '30rem' }} onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <h3 className="text-xl font-bold text-gray-100">Export Image</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl font-bold">&times;</button>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">Format</span>
+                    <div className="flex items-center gap-2">
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                            <button
+                                key={format}
+                                onClick={() => update({ format })}
+                                className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+                                    settings.format === format
+                                    ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+                                    : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {settings.format !== 'image/png' && (
+                    <label className="flex items-center gap-2 text-sm text-purple-200/80">
+                        Quality
+                        <input type="range" min={1} max={100} value={settings.quality} onChange={(e) => update({ quality: Number(e.target.value) })} className="flex-grow accent-purple-500" />
+                        <span className="w-8 text-right font-mono">{settings.quality}</span>
+                    </label>
+                )}
+
+                {settings.format === 'image/jpeg' && (
+                    <label className="flex items-center gap-3 text-sm text-purple-200/80">
+                        <input type="color" value={settings.background} onChange={(e) => update({ background: e.target.value })} className="w-8 h-8 bg-transparent rounded cursor-pointer" />
+                        Background for transparent areas
+                    </label>
+                )}
+
+                <div className="flex flex-col gap-2">
+                    <label className="flex items-center gap-3 cursor-pointer text-sm text-purple-200/80">
+                        <input type="checkbox" checked={settings.maxEdge !== null} onChange={(e) => update({ maxEdge: e.target.checked ? 2048 : null })} className="accent-purple-500" />
+                        Limit the longest side
+                    </label>
+                    {settings.maxEdge !== null && (
+                        <label className="flex items-center gap-2 text-xs text-purple-300/70">
+                            <input type="number" min={1} value={settings.maxEdge} onChange={(e) => update({ maxEdge: Math.max(1, Math.round(Number(e.target.value)) || 1) })} className={inputClassName} />
+                            px
+                        </label>
+                    )}
+                </div>
+
+                <label className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">File name</span>
+                    <input type="text" value={settings.filenameTemplate} onChange={(e) => update({ filenameTemplate: e.target.value })} className={inputClassName} />
+                    <span className="flex flex-wrap gap-1">
+                        {FILENAME_TOKENS.map(({ token, description }) => (
+                            <button
+                                key={token}
+                                type="button"
+                                title={description}
+                                onClick={() => update({ filenameTemplate: settings.filenameTemplate + token })}
+                                className="px-2 py-0.5 rounded bg-purple-900/40 hover:bg-purple-800/60 text-xs font-mono text-purple-200 transition-colors"
+                            >
+                                {token}
+                            </button>
+                        ))}
+                    </span>
+                </label>
+
+                <div className="flex items-center gap-2 text-xs text-purple-300/70 min-h-[1.5rem]">
+                    {isEncoding ? <><Spinner /> Estimating size&hellip;</>
+                        : error ? <span className="text-red-400">{error}</span>
+                        : exported && <span className="font-mono">{filename} &middot; {exported.width} &times; {exported.height} &middot; {formatBytes(exported.blob.size)}</span>}
+                </div>
+
+                <button onClick={handleDownload} disabled={!exported || isEncoding} className="gradient-button w-full bg-gradient-to-br from-pink-500 to-rose-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-rose-500/20 hover:shadow-xl hover:shadow-rose-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-800/50 disabled:to-purple-700/50 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none">Download</button>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
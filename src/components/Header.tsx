@@ -4,17 +4,92 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import type { Mission } from '../App';
-import { MissionsIcon, GenerateImageIcon, GenerateVideoIcon, RedoIcon, EditIcon, EyeIcon } from './icons';
+import { MissionsIcon, GenerateImageIcon, GenerateVideoIcon, RedoIcon, EditIcon, EyeIcon, SettingsIcon, PauseIcon, PlayIcon, StorageIcon, PinIcon } from './icons';
+import type { AIErrorType } from '../services/aiErrors';
+import { getThumbnail } from '../services/storage';
+import { describeImageParams, describeVideoParams, getImageParams, getVideoParams } from '../services/generationParams';
+import { estimateVideoDurationMs, formatDuration } from '../services/videoPolling';
+import { isUnread } from '../services/notifications';
 import Spinner from './Spinner';
 
+const ERROR_LABELS: Record<AIErrorType, string> = {
+    'safety-block': 'Safety block',
+    'finish-reason': 'Stopped early',
+    'text-instead-of-image': 'No image returned',
+    'rate-limit': 'Rate limited',
+    'network': 'Network error',
+    'invalid-key': 'Invalid API key',
+    'timeout': 'Timed out',
+    'unknown': 'Error',
+};
+
+// Small preview of a video mission's starting frame.
+const ReferenceThumbnail: React.FC<{ referenceImageId: string }> = ({ referenceImageId }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let active = true;
+        getThumbnail(referenceImageId).then(thumbnail => {
+            if (!active || !thumbnail) return;
+            objectUrl = URL.createObjectURL(thumbnail);
+            setUrl(objectUrl);
+        });
+        return () => {
+            active = false;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [referenceImageId]);
+
+    return (
+        <div className="relative w-9 h-9 rounded-md overflow-hidden bg-purple-900/40 flex-shrink-0">
+            {url && <img src={url} alt="Starting frame" className="w-full h-full object-cover" />}
+            <GenerateVideoIcon className="absolute bottom-0.5 right-0.5 w-3.5 h-3.5 text-white drop-shadow" />
+        </div>
+    );
+};
+
+// Elapsed time of a running video, with the time left judged against how
+// long recent videos took. Ticks once a second while mounted.
+const VideoProgress: React.FC<{ startedAt: number, estimatedMs: number }> = ({ startedAt, estimatedMs }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const elapsed = now - startedAt;
+    const remaining = estimatedMs - elapsed;
+    return (
+        <span className="normal-case">
+            {' '}&middot; {formatDuration(elapsed)} elapsed &middot; {remaining > 0 ? `~${formatDuration(remaining)} left` : 'taking longer than usual'}
+        </span>
+    );
+};
+
 const MissionItem: React.FC<{ 
     mission: Mission;
     isExpanded: boolean;
     onToggle: () => void;
     onRegenerate: (mission: Mission) => void;
+    onCancel: (mission: Mission) => void;
+    onPause: (mission: Mission) => void;
+    onResume: (mission: Mission) => void;
+    onTogglePin: (mission: Mission) => void;
     onEdit: (mission: Mission) => void;
     onSetPreview: (mission: Mission) => void;
-}> = ({ mission, isExpanded, onToggle, onRegenerate, onEdit, onSetPreview }) => {
+    estimatedVideoMs: number;
+    isSelecting?: boolean;
+    isSelected?: boolean;
+    onSelectToggle?: () => void;
+    isDraggable?: boolean;
+    isDropTarget?: boolean;
+    onDragStart?: () => void;
+    onDragEnter?: () => void;
+    onDrop?: () => void;
+    onDragEnd?: () => void;
+}> = ({ mission, isExpanded, onToggle, onRegenerate, onCancel, onPause, onResume, onTogglePin, onEdit, onSetPreview, estimatedVideoMs, isSelecting, isSelected, onSelectToggle, isDraggable, isDropTarget, onDragStart, onDragEnter, onDrop, onDragEnd }) => {
     
     const sliderRef = useRef<HTMLDivElement>(null);
 
@@ -24,33 +99,90 @@ const MissionItem: React.FC<{
             sliderRef.current.scrollBy({ left: direction === 'left' ? -scrollAmount : scrollAmount, behavior: 'smooth' });
         }
     };
+
+    const isRunning = mission.status === 'in-progress' || mission.status === 'pending';
+    const isActive = isRunning || mission.status === 'paused';
     
     return (
-        <div className="border-b border-purple-500/10 last:border-b-0">
-            <div className="p-3 cursor-pointer hover:bg-purple-500/5" onClick={onToggle}>
+        <div
+            className={`border-b border-purple-500/10 last:border-b-0 ${isDropTarget ? 'border-t-2 border-t-violet-500' : ''} ${isDraggable ? 'cursor-grab' : ''}`}
+            draggable={isDraggable}
+            onDragStart={isDraggable ? (e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart?.(); } : undefined}
+            onDragEnter={onDragEnter}
+            onDragOver={onDrop ? (e) => e.preventDefault() : undefined}
+            onDrop={onDrop ? (e) => { e.preventDefault(); onDrop(); } : undefined}
+            onDragEnd={onDragEnd}
+        >
+            <div className={`p-3 cursor-pointer hover:bg-purple-500/5 ${isUnread(mission) ? 'bg-violet-500/10' : ''}`} onClick={isSelecting ? onSelectToggle : onToggle}>
                 <div className="flex items-start gap-3">
-                    <div className="mt-1">
-                        {mission.type === 'image-gen' ? <GenerateImageIcon className="w-5 h-5 text-purple-400" /> : <GenerateVideoIcon className="w-5 h-5 text-purple-400" />}
-                    </div>
+                    {isSelecting && (
+                        <input type="checkbox" checked={!!isSelected} disabled={!onSelectToggle} onChange={() => {}} className="mt-1.5 accent-purple-500 disabled:opacity-30" aria-label="Select for export" />
+                    )}
+                    {mission.referenceImageId ? <ReferenceThumbnail referenceImageId={mission.referenceImageId} /> : (
+                        <div className="mt-1">
+                            {mission.type === 'image-gen' ? <GenerateImageIcon className="w-5 h-5 text-purple-400" /> : <GenerateVideoIcon className="w-5 h-5 text-purple-400" />}
+                        </div>
+                    )}
                     <div className="flex-grow overflow-hidden">
-                        <p className="text-sm font-semibold text-gray-200 truncate">{mission.prompt}</p>
-                        <p className="text-xs text-purple-300/60 capitalize">{mission.status === 'in-progress' ? mission.progressMessage : mission.status}</p>
+                        <p className="text-sm font-semibold text-gray-200 truncate">
+                            {isUnread(mission) && <span className="inline-block w-2 h-2 mr-1.5 mb-0.5 rounded-full bg-violet-400" aria-label="New" />}
+                            {mission.prompt}
+                        </p>
+                        <p className="text-xs text-purple-300/60 capitalize">
+                            {mission.status === 'in-progress' ? mission.progressMessage : mission.status}
+                            {mission.status === 'in-progress' && mission.operationStartedAt && <VideoProgress startedAt={mission.operationStartedAt} estimatedMs={estimatedVideoMs} />}
+                            {mission.evicted && <span className="normal-case"> &middot; result evicted</span>}
+                        </p>
                     </div>
                     <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center">
-                        {(mission.status === 'in-progress' || mission.status === 'pending') && <Spinner />}
+                        {isRunning && <Spinner />}
+                        {mission.pinned && <PinIcon className="w-4 h-4 text-amber-300" />}
+                        {mission.status === 'paused' && <PauseIcon className="w-5 h-5 text-purple-300/60" />}
                     </div>
                 </div>
             </div>
-             {isExpanded && (
+             {isExpanded && !isSelecting && (
                 <div className="p-3 bg-black/20 animate-fade-in">
                     <p className="text-xs text-purple-300/80 mb-2 whitespace-pre-wrap break-words max-h-24 overflow-y-auto scrollbar-hide">{mission.prompt}</p>
+                    {mission.type === 'image-gen' && (
+                        <p className="text-xs text-purple-300/50 mb-2 break-words">
+                            {describeImageParams(getImageParams(mission.imageParams))}
+                            {mission.imageParams?.negativePrompt && <> &middot; Without: {mission.imageParams.negativePrompt}</>}
+                        </p>
+                    )}
+                    {mission.type === 'video-gen' && (
+                        <p className="text-xs text-purple-300/50 mb-2 break-words">
+                            {describeVideoParams(getVideoParams(mission.videoParams))}
+                            {mission.videoParams?.negativePrompt && <> &middot; Without: {mission.videoParams.negativePrompt}</>}
+                        </p>
+                    )}
                     
-                    {mission.status === 'failed' && <p className="text-xs text-red-400 mt-1">{mission.error}</p>}
+                    {mission.status === 'failed' && (
+                        <p className="text-xs text-red-400 mt-1">
+                            {mission.errorType && <span className="font-semibold">{ERROR_LABELS[mission.errorType]}: </span>}
+                            {mission.error}
+                        </p>
+                    )}
                     
                     <div className="flex items-center gap-2 mt-3">
+                        {isRunning && (
+                            <button onClick={() => onPause(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95"><PauseIcon className="w-3 h-3"/>Pause</button>
+                        )}
+                        {mission.status === 'failed' && mission.operation && (
+                            <button onClick={() => onResume(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95"><PlayIcon className="w-3 h-3"/>{mission.operation.done ? 'Retry Download' : 'Resume'}</button>
+                        )}
+                        {mission.status === 'paused' && (
+                            <button onClick={() => onResume(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95"><PlayIcon className="w-3 h-3"/>Resume</button>
+                        )}
+                        {isActive && (
+                            <button onClick={() => onCancel(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-rose-900/40 border border-rose-500/30 text-rose-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-rose-800/60 active:scale-95">&times; Cancel</button>
+                        )}
                         {mission.status === 'completed' && mission.result && (
                             <button onClick={() => onSetPreview(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-600/40 border border-purple-400/30 text-purple-100 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-600/60 active:scale-95"><EyeIcon className="w-3 h-3"/>View Result</button>
                         )}
+                        {mission.status === 'completed' && mission.result && (
+                            <button onClick={() => onTogglePin(mission)} title={mission.pinned ? 'Unpin' : 'Pin to keep'} className={`flex items-center justify-center flex-shrink-0 text-xs border font-semibold py-1.5 px-2 rounded-md transition-all duration-200 ease-in-out active:scale-95 ${mission.pinned ? 'bg-amber-900/30 border-amber-500/30 text-amber-200 hover:bg-amber-800/40' : 'bg-purple-900/40 border-purple-500/20 text-purple-200 hover:bg-purple-800/60'}`}><PinIcon className="w-3 h-3"/></button>
+                        )}
                        <button onClick={() => onRegenerate(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95"><RedoIcon className="w-3 h-3"/>Regenerate</button>
                        <button onClick={() => onEdit(mission)} className="flex items-center justify-center gap-1.5 w-full text-center text-xs bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95"><EditIcon className="w-3 h-3"/>Edit</button>
                     </div>
@@ -66,15 +198,37 @@ interface HeaderProps {
   missions: Mission[];
   onClearCompleted: () => void;
   onRegenerateMission: (mission: Mission) => void;
+  onCancelMission: (mission: Mission) => void;
+  onPauseMission: (mission: Mission) => void;
+  onResumeMission: (mission: Mission) => void;
+  onReorderMission: (draggedId: string, targetId: string) => void;
+  isQueuePaused: boolean;
+  onToggleQueuePaused: () => void;
+  isProcessingElsewhere: boolean; // Another tab is running the queue
+  onMarkSeen: (mission: Mission) => void;
   onEditMission: (mission: Mission) => void;
   onSetPreview: (mission: Mission) => void;
+  onOpenSettings: () => void;
+  onOpenStorage: () => void;
+  onTogglePin: (mission: Mission) => void;
+  onExportMissions: (missions: Mission[]) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentView, onBackToHome, missions, onClearCompleted, onRegenerateMission, onEditMission, onSetPreview }) => {
+const Header: React.FC<HeaderProps> = ({ currentView, onBackToHome, missions, onClearCompleted, onRegenerateMission, onCancelMission, onPauseMission, onResumeMission, onReorderMission, isQueuePaused, onToggleQueuePaused, isProcessingElsewhere, onEditMission, onSetPreview, onOpenSettings, onOpenStorage, onTogglePin, onExportMissions, onMarkSeen }) => {
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [expandedMissionId, setExpandedMissionId] = useState<string | null>(null);
+  const [draggedMissionId, setDraggedMissionId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const panelRef = useRef<HTMLDivElement>(null);
   const activeMissions = missions.filter(m => m.status === 'in-progress' || m.status === 'pending');
+  // The queue is shown in processing order; everything else newest first.
+  const isQueued = (m: Mission) => m.status === 'in-progress' || m.status === 'pending' || m.status === 'paused';
+  const queuedMissions = missions.filter(isQueued);
+  const finishedMissions = missions.filter(m => !isQueued(m)).reverse();
+  const estimatedVideoMs = estimateVideoDurationMs(missions);
+  const unreadCount = missions.filter(isUnread).length;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -86,10 +240,70 @@ const Header: React.FC<HeaderProps> = ({ currentView, onBackToHome, missions, on
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
   
-  const handleToggleExpand = (missionId: string) => {
-    setExpandedMissionId(prevId => prevId === missionId ? null : missionId);
+  const handleToggleExpand = (mission: Mission) => {
+    setExpandedMissionId(prevId => prevId === mission.id ? null : mission.id);
+    onMarkSeen(mission);
   }
 
+  const handleDrop = (targetId: string) => {
+    if (draggedMissionId) onReorderMission(draggedMissionId, targetId);
+    setDraggedMissionId(null);
+    setDropTargetId(null);
+  };
+
+  const exportableMissions = missions.filter(m => m.result);
+
+  const handleSelectToggle = (missionId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(missionId)) next.delete(missionId);
+      else next.add(missionId);
+      return next;
+    });
+  };
+
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleExportSelected = () => {
+    onExportMissions(missions.filter(m => selectedIds.has(m.id)));
+    handleStopSelecting();
+  };
+
+  const renderMission = (mission: Mission, isDraggable = false) => (
+    <MissionItem 
+        key={mission.id} 
+        mission={mission} 
+        isExpanded={expandedMissionId === mission.id}
+        onToggle={() => handleToggleExpand(mission)}
+        onRegenerate={onRegenerateMission}
+        onCancel={onCancelMission}
+        onPause={onPauseMission}
+        onResume={onResumeMission}
+        onTogglePin={onTogglePin}
+        onEdit={() => {
+            onEditMission(mission);
+            setIsPanelOpen(false);
+        }}
+        onSetPreview={(m) => {
+            onSetPreview(m);
+            setIsPanelOpen(false);
+        }}
+        estimatedVideoMs={estimatedVideoMs}
+        isSelecting={isSelecting}
+        isSelected={selectedIds.has(mission.id)}
+        onSelectToggle={mission.result ? () => handleSelectToggle(mission.id) : undefined}
+        isDraggable={!isSelecting && isDraggable && mission.status !== 'in-progress'}
+        isDropTarget={isDraggable && dropTargetId === mission.id && draggedMissionId !== mission.id}
+        onDragStart={() => setDraggedMissionId(mission.id)}
+        onDragEnter={isDraggable && draggedMissionId ? () => setDropTargetId(mission.id) : undefined}
+        onDrop={isDraggable && draggedMissionId ? () => handleDrop(mission.id) : undefined}
+        onDragEnd={() => { setDraggedMissionId(null); setDropTargetId(null); }}
+    />
+  );
+
   return (
     <header className="w-full py-3 px-4 sm:px-8 border-b border-purple-500/10 bg-black/30 backdrop-blur-sm sticky top-0 z-50">
       <div className="flex items-center justify-between relative h-10">
@@ -111,10 +325,18 @@ const Header: React.FC<HeaderProps> = ({ currentView, onBackToHome, missions, on
             <h1 className="text-xl font-bold tracking-tight text-gray-100">Peter Pixx</h1>
         </div>
 
-        <div className="absolute right-4 top-1/2 -translate-y-1/2" ref={panelRef}>
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-1" ref={panelRef}>
+            <button onClick={onOpenStorage} className="p-2 rounded-full hover:bg-purple-500/10 transition-colors" aria-label="Storage">
+                <StorageIcon className="w-6 h-6 text-purple-200" />
+            </button>
+            <button onClick={onOpenSettings} className="p-2 rounded-full hover:bg-purple-500/10 transition-colors" aria-label="Settings">
+                <SettingsIcon className="w-6 h-6 text-purple-200" />
+            </button>
             <button onClick={() => setIsPanelOpen(o => !o)} className="relative p-2 rounded-full hover:bg-purple-500/10 transition-colors">
                 <MissionsIcon className="w-6 h-6 text-purple-200" />
-                {activeMissions.length > 0 && (
+                {unreadCount > 0 ? (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 flex items-center justify-center rounded-full bg-rose-600 text-white text-[10px] font-bold ring-2 ring-gray-950">{unreadCount > 9 ? '9+' : unreadCount}</span>
+                ) : activeMissions.length > 0 && (
                     <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-purple-500 ring-2 ring-gray-950 animate-pulse" />
                 )}
             </button>
@@ -122,28 +344,49 @@ const Header: React.FC<HeaderProps> = ({ currentView, onBackToHome, missions, on
                 <div className="absolute top-full right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-gray-950/80 backdrop-blur-xl border border-purple-500/20 rounded-lg shadow-2xl z-50 animate-fade-in">
                     <div className="p-3 flex justify-between items-center border-b border-purple-500/10 sticky top-0 bg-gray-950/80 backdrop-blur-xl">
                         <h3 className="font-bold text-gray-100">Missions</h3>
-                        <button onClick={onClearCompleted} className="text-xs text-purple-300/60 hover:text-white transition-colors">Clear Completed</button>
+                        <div className="flex items-center gap-3">
+                            <button onClick={onToggleQueuePaused} className="flex items-center gap-1 text-xs text-purple-300/60 hover:text-white transition-colors">
+                                {isQueuePaused ? <PlayIcon className="w-3 h-3" /> : <PauseIcon className="w-3 h-3" />}
+                                {isQueuePaused ? 'Resume Queue' : 'Pause Queue'}
+                            </button>
+                            <button onClick={onClearCompleted} className="text-xs text-purple-300/60 hover:text-white transition-colors">Clear Completed</button>
+                        </div>
                     </div>
+                    {isProcessingElsewhere && (
+                        <p className="px-3 pt-3 text-xs text-purple-300/50">Missions are running in another open tab. Changes here are sent to it.</p>
+                    )}
                     {missions.length === 0 ? (
                         <p className="p-4 text-center text-sm text-purple-300/40">No missions yet.</p>
                     ) : (
-                        [...missions].reverse().map(mission => (
-                            <MissionItem 
-                                key={mission.id} 
-                                mission={mission} 
-                                isExpanded={expandedMissionId === mission.id}
-                                onToggle={() => handleToggleExpand(mission.id)}
-                                onRegenerate={onRegenerateMission}
-                                onEdit={() => {
-                                    onEditMission(mission);
-                                    setIsPanelOpen(false);
-                                }}
-                                onSetPreview={(m) => {
-                                    onSetPreview(m);
-                                    setIsPanelOpen(false);
-                                }}
-                            />
-                        ))
+                        <>
+                            {queuedMissions.length > 0 && (
+                                <>
+                                    <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-purple-300/50">
+                                        Queue{isQueuePaused ? ' (paused)' : ''} <span className="normal-case font-normal tracking-normal">&middot; drag to reorder</span>
+                                    </p>
+                                    {queuedMissions.map(mission => renderMission(mission, true))}
+                                </>
+                            )}
+                            {finishedMissions.length > 0 && queuedMissions.length > 0 && (
+                                <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-purple-300/50">History</p>
+                            )}
+                            {finishedMissions.map(mission => renderMission(mission))}
+                        </>
+                    )}
+                    {exportableMissions.length > 0 && (
+                        <div className="p-3 flex justify-between items-center gap-2 border-t border-purple-500/10 sticky bottom-0 bg-gray-950/80 backdrop-blur-xl">
+                            {isSelecting ? (
+                                <>
+                                    <button onClick={() => setSelectedIds(new Set(exportableMissions.map(m => m.id)))} className="text-xs text-purple-300/60 hover:text-white transition-colors">Select All</button>
+                                    <div className="flex items-center gap-3">
+                                        <button onClick={handleStopSelecting} className="text-xs text-purple-300/60 hover:text-white transition-colors">Cancel</button>
+                                        <button onClick={handleExportSelected} disabled={selectedIds.size === 0} className="text-xs bg-violet-600 text-white font-semibold py-1.5 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-violet-500 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed">Export ZIP ({selectedIds.size})</button>
+                                    </div>
+                                </>
+                            ) : (
+                                <button onClick={() => setIsSelecting(true)} className="text-xs text-purple-300/60 hover:text-white transition-colors">Select missions to export&hellip;</button>
+                            )}
+                        </div>
                     )}
                 </div>
             )}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { EyedropperIcon } from './icons';
+import { computeHistogram, samplePixel, toHex, type Histogram, type PixelSample } from '../services/imageAnalysis';
+
+interface HistogramPanelProps {
+  current: ImageData | null;
+  // Full-resolution copies for the eyedropper, decoded while it is active.
+  currentBitmap: ImageBitmap | null;
+  originalBitmap: ImageBitmap | null;
+  // False once the image has been cropped, rotated, flipped or straightened,
+  // as the original no longer has the same detail under the pointer.
+  canCompareOriginal: boolean;
+  imageSize: { width: number, height: number } | null;
+  showClipping: boolean;
+  onToggleClipping: () => void;
+  isEyedropperActive: boolean;
+  onToggleEyedropper: () => void;
+  samplePoint: { x: number, y: number } | null;
+}
+
+const HISTOGRAM_HEIGHT = 96;
+
+// Luminance in grey behind the three channels, which add up where they overlap.
+const drawHistogram = (canvas: HTMLCanvasElement, histogram: Histogram) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = 256;
+  canvas.height = HISTOGRAM_HEIGHT;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // Clipped pixels pile up in the end bins; scaling to those would flatten the rest.
+  let peak = 1;
+  for (const channel of [histogram.red, histogram.green, histogram.blue, histogram.luminance]) {
+    for (let i = 1; i < 255; i++) peak = Math.max(peak, channel[i]);
+  }
+  const plot = (channel: Uint32Array, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(0, HISTOGRAM_HEIGHT);
+    for (let i = 0; i < 256; i++) {
+      ctx.lineTo(i, HISTOGRAM_HEIGHT - Math.min(1, channel[i] / peak) * HISTOGRAM_HEIGHT);
+    }
+    ctx.lineTo(255, HISTOGRAM_HEIGHT);
+    ctx.closePath();
+    ctx.fill();
+  };
+  ctx.globalCompositeOperation = 'source-over';
+  plot(histogram.luminance, 'rgba(229, 231, 235, 0.35)');
+  ctx.globalCompositeOperation = 'lighter';
+  plot(histogram.red, 'rgba(239, 68, 68, 0.6)');
+  plot(histogram.green, 'rgba(34, 197, 94, 0.6)');
+  plot(histogram.blue, 'rgba(59, 130, 246, 0.6)');
+};
+
+const formatPercent = (share: number) => share === 0 ? '0%' : share < 0.001 ? '<0.1%' : `${(share * 100).toFixed(1)}%`;
+
+const SampleRow: React.FC<{ label: string, sample: PixelSample | null }> = ({ label, sample }) => (
+  <div className="flex items-center gap-2 text-xs text-purple-200/80">
+    <span className="w-14">{label}</span>
+    {sample ? (
+      <>
+        <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: toHex(sample) }} />
+        <span className="font-mono">{sample.red} {sample.green} {sample.blue}</span>
+        <span className="font-mono text-purple-300/60 ml-auto">{toHex(sample)}</span>
+      </>
+    ) : <span className="text-purple-300/40">&ndash;</span>}
+  </div>
+);
+
+// Histogram of the current image with clipping figures, plus the eyedropper
+// readout for the current and original image.
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ current, currentBitmap, originalBitmap, canCompareOriginal, imageSize, showClipping, onToggleClipping, isEyedropperActive, onToggleEyedropper, samplePoint }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const histogram = useMemo(() => current ? computeHistogram(current) : null, [current]);
+
+  useEffect(() => {
+    if (histogram && canvasRef.current) drawHistogram(canvasRef.current, histogram);
+  }, [histogram]);
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-3 flex flex-col gap-2 backdrop-blur-2xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-200/80">Histogram</h3>
+        <button
+          onClick={onToggleEyedropper}
+          className={`p-1.5 rounded-md transition-colors ${isEyedropperActive ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20' : 'text-purple-300/70 hover:text-white hover:bg-purple-500/10'}`}
+          aria-label="Eyedropper"
+          aria-pressed={isEyedropperActive}
+        >
+          <EyedropperIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <canvas ref={canvasRef} className="w-full h-24 bg-black/40 rounded-md" />
+      <label className="flex items-center gap-2 text-xs text-purple-200/80 cursor-pointer">
+        <input type="checkbox" checked={showClipping} onChange={onToggleClipping} className="accent-purple-500" />
+        Show clipping
+        {histogram && (
+          <span className="ml-auto font-mono">
+            <span className="text-rose-300">{formatPercent(histogram.highlightsClipped)}</span>
+            {' / '}
+            <span className="text-sky-300">{formatPercent(histogram.shadowsClipped)}</span>
+          </span>
+        )}
+      </label>
+      {isEyedropperActive && (
+        <div className="flex flex-col gap-1 pt-2 border-t border-purple-800/50">
+          <p className="text-xs text-purple-300/60">
+            {samplePoint && imageSize
+              ? `x ${Math.floor(samplePoint.x * imageSize.width)}, y ${Math.floor(samplePoint.y * imageSize.height)}`
+              : 'Point at the image to read its colors.'}
+          </p>
+          <SampleRow label="Current" sample={samplePoint && currentBitmap ? samplePixel(currentBitmap, samplePoint) : null} />
+          {canCompareOriginal
+            ? <SampleRow label="Original" sample={samplePoint && originalBitmap ? samplePixel(originalBitmap, samplePoint) : null} />
+            : <p className="text-xs text-purple-300/40">The original can't be compared after a crop, rotate, flip or straighten.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistogramPanel;
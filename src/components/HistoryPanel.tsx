@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { EDIT_OPERATION_LABELS, getChildren, getPathToNode, getRootNode, type EditHistory, type HistoryNode } from '../services/editHistory';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onSelectNode: (id: string) => void;
+  disabled: boolean;
+}
+
+const NodeThumbnail: React.FC<{ thumbnail?: Blob }> = ({ thumbnail }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!thumbnail) return;
+    const objectUrl = URL.createObjectURL(thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [thumbnail]);
+
+  return url
+    ? <img src={url} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0" />
+    : <div className="w-10 h-10 rounded bg-purple-900/40 flex-shrink-0" />;
+};
+
+// Shows the edit tree. A run of single edits is drawn as one column; where
+// an image was edited more than once, each branch is indented under it.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelectNode, disabled }) => {
+  const root = getRootNode(history);
+  if (!root) return null;
+  const activePath = new Set(history.currentId ? getPathToNode(history, history.currentId) : []);
+
+  const renderNode = (node: HistoryNode) => {
+    const isCurrent = node.id === history.currentId;
+    return (
+      <button
+        key={node.id}
+        onClick={() => onSelectNode(node.id)}
+        disabled={disabled}
+        title={node.prompt}
+        className={`w-full flex items-center gap-2 p-1.5 rounded-md text-left transition-colors disabled:cursor-not-allowed ${
+          isCurrent
+          ? 'bg-violet-600/40 ring-1 ring-violet-400'
+          : activePath.has(node.id) ? 'hover:bg-purple-500/10' : 'opacity-60 hover:opacity-100 hover:bg-purple-500/10'
+        }`}
+      >
+        <NodeThumbnail thumbnail={node.thumbnail} />
+        <span className="flex flex-col overflow-hidden">
+          <span className="text-xs font-semibold text-purple-100">{EDIT_OPERATION_LABELS[node.operation]}</span>
+          {node.prompt && <span className="text-[11px] text-purple-300/60 truncate">{node.prompt}</span>}
+        </span>
+      </button>
+    );
+  };
+
+  const renderBranch = (start: HistoryNode): React.ReactNode[] => {
+    const rows: React.ReactNode[] = [];
+    for (let node: HistoryNode | undefined = start; node; ) {
+      rows.push(renderNode(node));
+      const children = getChildren(history, node.id);
+      if (children.length > 1) {
+        rows.push(
+          <div key={`${node.id}-branches`} className="flex flex-col gap-2">
+            {children.map(child => (
+              <div key={child.id} className="ml-3 pl-2 border-l-2 border-purple-500/30 flex flex-col gap-1">
+                {renderBranch(child)}
+              </div>
+            ))}
+          </div>
+        );
+      }
+      node = children.length === 1 ? children[0] : undefined;
+    }
+    return rows;
+  };
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-3 flex flex-col gap-2 backdrop-blur-2xl">
+      <h3 className="text-sm font-semibold text-purple-200/80">History</h3>
+      <div className="flex flex-col gap-1 max-h-[60vh] overflow-y-auto">
+        {renderBranch(root)}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { IMAGE_ASPECT_RATIOS, IMAGE_COUNTS, IMAGE_MIME_TYPES, PERSON_GENERATION_POLICIES, type ImageGenerationParams } from '../services/generationParams';
+
+interface ImageParamsPanelProps {
+  params: ImageGenerationParams;
+  onChange: (params: ImageGenerationParams) => void;
+  disabled: boolean;
+}
+
+const chipClassName = (isActive: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+  isActive
+  ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+  : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+}`;
+
+const ImageParamsPanel: React.FC<ImageParamsPanelProps> = ({ params, onChange, disabled }) => {
+  const update = (updates: Partial<ImageGenerationParams>) => onChange({ ...params, ...updates });
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 grid grid-cols-1 md:grid-cols-2 gap-4 backdrop-blur-2xl">
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Images</span>
+        <div className="flex flex-wrap gap-2">
+          {IMAGE_COUNTS.map(count => (
+            <button key={count} type="button" onClick={() => update({ numberOfImages: count })} disabled={disabled} className={chipClassName(params.numberOfImages === count)}>{count}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Aspect ratio</span>
+        <div className="flex flex-wrap gap-2">
+          {IMAGE_ASPECT_RATIOS.map(ratio => (
+            <button key={ratio} type="button" onClick={() => update({ aspectRatio: ratio })} disabled={disabled} className={chipClassName(params.aspectRatio === ratio)}>{ratio}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Format</span>
+        <div className="flex flex-wrap gap-2">
+          {IMAGE_MIME_TYPES.map(({ value, label }) => (
+            <button key={value} type="button" onClick={() => update({ outputMimeType: value })} disabled={disabled} className={chipClassName(params.outputMimeType === value)}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">People</span>
+        <div className="flex flex-wrap gap-2">
+          {PERSON_GENERATION_POLICIES.map(({ value, label }) => (
+            <button key={value} type="button" onClick={() => update({ personGeneration: value })} disabled={disabled} className={chipClassName(params.personGeneration === value)}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-2 md:col-span-2">
+        <span className="text-sm font-medium text-purple-200/80">Negative prompt</span>
+        <input
+          type="text"
+          value={params.negativePrompt ?? ''}
+          onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+          placeholder="Things to keep out of the image, e.g. 'text, watermark, blur'"
+          disabled={disabled}
+          className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base disabled:opacity-60"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default ImageParamsPanel;
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { EyeIcon, TrashIcon, UploadIcon } from './icons';
+import { BLEND_MODES, isImageLayer, isPlacedLayer, MAX_LAYER_SCALE, MIN_LAYER_SCALE, type BlendMode, type Layer, type LayerChanges } from '../services/layers';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  onSelectLayer: (id: string) => void;
+  onChangeLayer: (id: string, changes: LayerChanges) => void;
+  onMoveLayer: (id: string, direction: 1 | -1) => void;
+  onRemoveLayer: (id: string) => void;
+  onImportImage: (file: File) => void;
+  onFlatten: () => void;
+  resultsAsLayer: boolean;
+  onResultsAsLayerChange: (value: boolean) => void;
+  disabled: boolean;
+}
+
+const smallButtonClassName = 'p-1 rounded text-purple-300/70 hover:text-white hover:bg-purple-500/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+// The layer list, top layer first, with the active layer's settings below.
+// AI edits work on the active image layer, or on the photo when a text
+// layer or the photo is active.
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers, activeLayerId, onSelectLayer, onChangeLayer, onMoveLayer, onRemoveLayer, onImportImage, onFlatten, resultsAsLayer, onResultsAsLayerChange, disabled,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId);
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-3 flex flex-col gap-2 backdrop-blur-2xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-200/80">Layers</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={smallButtonClassName} title="Import an image as a layer">
+            <UploadIcon className="w-4 h-4" />
+          </button>
+          <button onClick={onFlatten} disabled={disabled || layers.length < 2} className="text-xs px-2 py-1 rounded bg-purple-900/40 hover:bg-purple-800/60 text-purple-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" title="Merge every layer into the photo">
+            Flatten
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportImage(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-[30vh] overflow-y-auto">
+        {layers.map((layer, index) => (
+          <div
+            key={layer.id}
+            className={`flex items-center gap-1 p-1.5 rounded-md transition-colors ${layer.id === activeLayerId ? 'bg-violet-600/40 ring-1 ring-violet-400' : 'hover:bg-purple-500/10'}`}
+          >
+            <button onClick={() => onChangeLayer(layer.id, { visible: !layer.visible })} className={`${smallButtonClassName} ${layer.visible ? '' : 'opacity-30'}`} title={layer.visible ? 'Hide layer' : 'Show layer'}>
+              <EyeIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => onSelectLayer(layer.id)} className="flex-grow text-left text-xs font-semibold text-purple-100 truncate">
+              {layer.name}
+            </button>
+            <button onClick={() => onMoveLayer(layer.id, 1)} disabled={index === layers.length - 1} className={smallButtonClassName} title="Move up">&uarr;</button>
+            <button onClick={() => onMoveLayer(layer.id, -1)} disabled={index === 0} className={smallButtonClassName} title="Move down">&darr;</button>
+            {isPlacedLayer(layer) && (
+              <button onClick={() => onRemoveLayer(layer.id)} disabled={disabled} className={smallButtonClassName} title="Delete layer">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )).reverse()}
+      </div>
+
+      {activeLayer && (
+        <div className="flex flex-col gap-2 pt-2 border-t border-purple-800/50">
+          <label className="flex items-center gap-2 text-xs text-purple-200/80">
+            <span className="w-14">Opacity</span>
+            <input type="range" min={0} max={100} value={Math.round(activeLayer.opacity * 100)} onChange={(e) => onChangeLayer(activeLayer.id, { opacity: Number(e.target.value) / 100 })} className="flex-grow accent-purple-500" />
+            <span className="w-9 text-right font-mono">{Math.round(activeLayer.opacity * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-purple-200/80">
+            <span className="w-14">Blend</span>
+            <select value={activeLayer.blendMode} onChange={(e) => onChangeLayer(activeLayer.id, { blendMode: e.target.value as BlendMode })} className="flex-grow bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-1 focus:ring-2 focus:ring-purple-500 focus:outline-none">
+              {BLEND_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+            </select>
+          </label>
+          {isImageLayer(activeLayer) && (
+            <label className="flex items-center gap-2 text-xs text-purple-200/80">
+              <span className="w-14">Scale</span>
+              <input type="range" min={MIN_LAYER_SCALE * 100} max={MAX_LAYER_SCALE * 100} value={Math.round(activeLayer.scale * 100)} onChange={(e) => onChangeLayer(activeLayer.id, { scale: Number(e.target.value) / 100 })} className="flex-grow accent-purple-500" />
+              <span className="w-9 text-right font-mono">{Math.round(activeLayer.scale * 100)}%</span>
+            </label>
+          )}
+          {isPlacedLayer(activeLayer) && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-purple-200/80">
+                <span className="w-14">Rotation</span>
+                <input type="range" min={-180} max={180} step="0.1" value={activeLayer.rotation} onChange={(e) => onChangeLayer(activeLayer.id, { rotation: Number(e.target.value) })} className="flex-grow accent-purple-500" />
+                <span className="w-9 text-right font-mono">{Math.round(activeLayer.rotation)}°</span>
+              </label>
+              <p className="text-[11px] text-purple-300/60">Drag on the image to move this layer, or use its handles to scale and rotate it.</p>
+            </>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-purple-200/80 cursor-pointer">
+        <input type="checkbox" checked={resultsAsLayer} onChange={(e) => onResultsAsLayerChange(e.target.checked)} className="accent-purple-500" />
+        Put AI results of the photo in a new layer
+      </label>
+    </div>
+  );
+};
+
+export default LayersPanel;
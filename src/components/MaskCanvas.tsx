@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { isMaskEmpty } from '../services/maskCompositing';
+
+export type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+interface MaskCanvasProps {
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  width: number;
+  height: number;
+  tool: MaskTool;
+  brushSize: number;
+  disabled: boolean;
+  onMaskChange: (hasMask: boolean) => void;
+}
+
+const MASK_COLOR = 'rgb(236, 72, 153)';
+
+// Paints a selection mask over the editor image. The canvas is kept at the
+// image's natural resolution and scaled with CSS, so the mask lines up with
+// the real pixels regardless of how large the image is displayed.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ canvasRef, width, height, tool, brushSize, disabled, onMaskChange }) => {
+  const isDrawing = useRef(false);
+  const lastPoint = useRef<{ x: number, y: number } | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number, y: number }[]>([]);
+  const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    ctx?.clearRect(0, 0, width, height);
+    onMaskChange(false);
+  }, [canvasRef, width, height, onMaskChange]);
+
+  // Maps a pointer event to image pixel space, accounting for object-contain letterboxing.
+  const getGeometry = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+      scale,
+      display: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      image: { x: (e.clientX - rect.left - offsetX) / scale, y: (e.clientY - rect.top - offsetY) / scale },
+    };
+  };
+
+  const strokeTo = (point: { x: number, y: number }, scale: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPoint.current ?? point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize / scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const fillLasso = (points: { x: number, y: number }[]) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || points.length < 3) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawing.current = true;
+    const { image, scale } = getGeometry(e);
+    if (tool === 'lasso') {
+      setLassoPoints([image]);
+    } else {
+      lastPoint.current = null;
+      strokeTo(image, scale);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { image, display, scale } = getGeometry(e);
+    setCursor(display);
+    if (!isDrawing.current) return;
+    if (tool === 'lasso') {
+      setLassoPoints(points => [...points, image]);
+    } else {
+      strokeTo(image, scale);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    lastPoint.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lassoPoints);
+      setLassoPoints([]);
+    }
+    if (canvasRef.current) onMaskChange(!isMaskEmpty(canvasRef.current));
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        className={`absolute top-0 left-0 w-full h-full object-contain opacity-50 touch-none ${disabled ? 'pointer-events-none' : 'cursor-none'}`}
+      />
+      {lassoPoints.length > 1 && (
+        <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute top-0 left-0 w-full h-full pointer-events-none">
+          <polyline points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke="white" strokeWidth={Math.max(width, height) / 400} strokeDasharray={`${Math.max(width, height) / 100}`} />
+        </svg>
+      )}
+      {cursor && !disabled && tool !== 'lasso' && (
+        <div className="mask-brush-cursor" style={{ left: `${cursor.x}px`, top: `${cursor.y}px`, width: `${brushSize}px`, height: `${brushSize}px` }} />
+      )}
+    </>
+  );
+};
+
+export default MaskCanvas;
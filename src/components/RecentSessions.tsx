@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EditIcon, TrashIcon } from './icons';
+import { deleteEditorSession, getThumbnail, listEditorSessions, renameEditorSession, type EditorSession } from '../services/storage';
+
+interface RecentSessionsProps {
+  onResume: (sessionId: string) => void;
+  onError: (error: unknown) => void;
+}
+
+const SessionThumbnail: React.FC<{ nodeId: string }> = ({ nodeId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | undefined;
+    let active = true;
+    getThumbnail(nodeId).then(thumbnail => {
+      if (!active || !thumbnail) return;
+      objectUrl = URL.createObjectURL(thumbnail);
+      setUrl(objectUrl);
+    });
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [nodeId]);
+
+  return url
+    ? <img src={url} alt="" className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+    : <div className="w-14 h-14 rounded-md bg-purple-900/40 flex-shrink-0" />;
+};
+
+// Saved editor sessions on the start screen, most recent first.
+const RecentSessions: React.FC<RecentSessionsProps> = ({ onResume, onError }) => {
+  const [sessions, setSessions] = useState<EditorSession[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  // Escape leaves the input through blur too, which would otherwise save.
+  const cancelRenameRef = useRef(false);
+
+  useEffect(() => {
+    let active = true;
+    listEditorSessions().then(list => { if (active) setSessions(list); });
+    return () => { active = false; };
+  }, []);
+
+  const handleStartRename = (session: EditorSession) => {
+    setRenamingId(session.id);
+    setName(session.name);
+  };
+
+  const handleRename = async (session: EditorSession) => {
+    setRenamingId(null);
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      return;
+    }
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === session.name) return;
+    try {
+      await renameEditorSession(session.id, trimmed);
+      setSessions(prev => prev.map(s => s.id === session.id ? { ...s, name: trimmed } : s));
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleDelete = async (session: EditorSession) => {
+    try {
+      await deleteEditorSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-12 w-full max-w-2xl bg-purple-950/50 p-4 rounded-lg border border-purple-800/50 backdrop-blur-2xl">
+      <h3 className="text-lg font-bold text-purple-200 mb-3 text-center">Recent Sessions</h3>
+      <div className="space-y-2">
+        {sessions.map(session => (
+          <div key={session.id} className="text-left flex items-center gap-4 p-2 bg-purple-900/20 rounded-lg">
+            <button onClick={() => onResume(session.id)} className="flex-shrink-0" aria-label={`Resume ${session.name}`}>
+              <SessionThumbnail nodeId={session.currentId} />
+            </button>
+            <div className="flex-grow overflow-hidden">
+              {renamingId === session.id ? (
+                <input
+                  autoFocus
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onBlur={() => handleRename(session)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') cancelRenameRef.current = true;
+                    if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                  }}
+                  className="w-full bg-purple-950/50 border border-purple-800 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                />
+              ) : (
+                <button onClick={() => onResume(session.id)} className="block w-full text-left text-sm font-semibold text-purple-200 truncate hover:text-white transition-colors">{session.name}</button>
+              )}
+              <p className="text-xs text-purple-300/60">
+                {Object.keys(session.nodes).length} step{Object.keys(session.nodes).length === 1 ? '' : 's'} &middot; {new Date(session.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <button onClick={() => handleStartRename(session)} className="p-2 text-purple-300/60 hover:text-white transition-colors" aria-label="Rename session"><EditIcon className="w-4 h-4" /></button>
+            <button onClick={() => handleDelete(session)} className="p-2 text-purple-300/60 hover:text-rose-300 transition-colors" aria-label="Delete session"><TrashIcon className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentSessions;
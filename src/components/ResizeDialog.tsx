@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { MAX_RESIZE_EDGE, MAX_RESIZE_PIXELS, RESAMPLING_METHODS, type ResamplingMethod } from '../services/resample';
+
+interface ResizeDialogProps {
+    imageSize: { width: number, height: number };
+    onApply: (width: number, height: number, method: ResamplingMethod) => void;
+    onClose: () => void;
+}
+
+type Unit = 'px' | '%';
+
+const formatSize = (pixels: number, original: number, unit: Unit) =>
+    unit === 'px' ? String(pixels) : String(Math.round(pixels / original * 10000) / 100);
+
+const inputClassName = 'bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base';
+
+const ResizeDialog: React.FC<ResizeDialogProps> = ({ imageSize, onApply, onClose }) => {
+    const [unit, setUnit] = useState<Unit>('px');
+    // The fields hold what was typed, in the selected unit.
+    const [widthText, setWidthText] = useState(String(imageSize.width));
+    const [heightText, setHeightText] = useState(String(imageSize.height));
+    const [lockAspect, setLockAspect] = useState(true);
+    const [method, setMethod] = useState<ResamplingMethod>('bicubic');
+
+    const toPixels = (text: string, original: number) => {
+        const value = Number(text);
+        if (!text.trim() || !Number.isFinite(value)) return NaN;
+        return Math.round(unit === 'px' ? value : original * value / 100);
+    };
+
+    const width = toPixels(widthText, imageSize.width);
+    const height = toPixels(heightText, imageSize.height);
+    const isWithinEdges = width >= 1 && height >= 1 && width <= MAX_RESIZE_EDGE && height <= MAX_RESIZE_EDGE;
+    const isValid = isWithinEdges && width * height <= MAX_RESIZE_PIXELS;
+
+    const handleWidthChange = (text: string) => {
+        setWidthText(text);
+        const pixels = toPixels(text, imageSize.width);
+        if (lockAspect && pixels > 0) setHeightText(formatSize(Math.max(1, Math.round(pixels * imageSize.height / imageSize.width)), imageSize.height, unit));
+    };
+
+    const handleHeightChange = (text: string) => {
+        setHeightText(text);
+        const pixels = toPixels(text, imageSize.height);
+        if (lockAspect && pixels > 0) setWidthText(formatSize(Math.max(1, Math.round(pixels * imageSize.width / imageSize.height)), imageSize.width, unit));
+    };
+
+    const handleUnitChange = (next: Unit) => {
+        if (next === unit) return;
+        if (width > 0) setWidthText(formatSize(width, imageSize.width, next));
+        if (height > 0) setHeightText(formatSize(height, imageSize.height, next));
+        setUnit(next);
+    };
+
+    const handleApply = () => {
+        if (!isValid) return;
+        onApply(width, height, method);
+        onClose();
+    };
+
+    return (
+        <div className="preview-overlay" onClick={onClose}>
+            <div className="preview-content" style={{ maxWidth: '26rem' }} onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <h3 className="text-xl font-bold text-gray-100">Resize Image</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl font-bold">&times;</button>
+                </div>
+                <p className="text-sm text-purple-300/60 -mt-2">Currently {imageSize.width} &times; {imageSize.height} px</p>
+
+                <div className="flex items-center gap-2">
+                    {(['px', '%'] as Unit[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => handleUnitChange(option)}
+                            className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+                                unit === option
+                                ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+                                : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+                            }`}
+                        >
+                            {option === 'px' ? 'Pixels' : 'Percent'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                        Width ({unit})
+                        <input type="number" min={0} step="any" value={widthText} onChange={(e) => handleWidthChange(e.target.value)} className={inputClassName} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                        Height ({unit})
+                        <input type="number" min={0} step="any" value={heightText} onChange={(e) => handleHeightChange(e.target.value)} className={inputClassName} />
+                    </label>
+                </div>
+
+                <label className="flex items-center gap-3 cursor-pointer text-sm text-purple-200/80">
+                    <input type="checkbox" checked={lockAspect} onChange={(e) => setLockAspect(e.target.checked)} className="accent-purple-500" />
+                    Keep aspect ratio
+                </label>
+
+                <label className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">Resampling</span>
+                    <select value={method} onChange={(e) => setMethod(e.target.value as ResamplingMethod)} className={inputClassName}>
+                        {RESAMPLING_METHODS.map(({ method: option, label }) => <option key={option} value={option}>{label}</option>)}
+                    </select>
+                </label>
+
+                <p className="text-xs text-purple-300/50">
+                    {isValid ? `The result will be ${width} × ${height} px.`
+                        : isWithinEdges ? `The result can be at most ${(MAX_RESIZE_PIXELS / 1_000_000).toFixed(1)} megapixels.`
+                        : `Enter a size between 1 and ${MAX_RESIZE_EDGE} px on each side.`}
+                </p>
+
+                <button onClick={handleApply} disabled={!isValid} className="gradient-button w-full bg-gradient-to-br from-violet-600 to-purple-600 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-800/50 disabled:to-purple-700/50 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none">Resize</button>
+            </div>
+        </div>
+    );
+};
+
+export default ResizeDialog;
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BrushIcon, LassoIcon, EraserIcon } from './icons';
+import type { MaskTool } from './MaskCanvas';
+
+interface RetouchPanelProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  onClearMask: () => void;
+  hasMask: boolean;
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  promptInputRef?: React.Ref<HTMLInputElement>;
+  onGenerate: () => void;
+  isLoading: boolean;
+}
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({ tool, onToolChange, brushSize, onBrushSizeChange, feather, onFeatherChange, onClearMask, hasMask, prompt, onPromptChange, promptInputRef, onGenerate, isLoading }) => {
+  const tools: { name: MaskTool, label: string, icon: React.ReactNode }[] = [
+    { name: 'brush', label: 'Brush', icon: <BrushIcon className="w-5 h-5" /> },
+    { name: 'lasso', label: 'Lasso', icon: <LassoIcon className="w-5 h-5" /> },
+    { name: 'eraser', label: 'Eraser', icon: <EraserIcon className="w-5 h-5" /> },
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 flex flex-col md:flex-row items-center gap-4 backdrop-blur-2xl animated-panel">
+        <div className="flex items-center gap-2">
+          {tools.map(({ name, label, icon }) => (
+            <button
+              key={name}
+              onClick={() => onToolChange(name)}
+              disabled={isLoading}
+              title={label}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+                tool === name
+                ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+                : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+              }`}
+            >
+              {icon}{label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-purple-200/80 flex-grow w-full">
+          Size
+          <input type="range" min="4" max="120" value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} disabled={isLoading || tool === 'lasso'} className="flex-grow accent-purple-500" />
+          <span className="w-8 text-right font-mono">{brushSize}</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-purple-200/80 flex-grow w-full">
+          Feather
+          <input type="range" min="0" max="40" value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} disabled={isLoading} className="flex-grow accent-purple-500" />
+          <span className="w-8 text-right font-mono">{feather}</span>
+        </label>
+        <button onClick={onClearMask} disabled={isLoading || !hasMask} className="text-sm text-purple-300/70 hover:text-white transition-colors disabled:opacity-40 whitespace-nowrap">Clear mask</button>
+      </div>
+
+      <p className="text-md text-purple-200/70">{hasMask ? 'Now, describe the change you want to make inside the mask.' : 'First, paint over the area of the image you want to edit.'}</p>
+      <form onSubmit={(e) => { e.preventDefault(); onGenerate(); }} className="w-full flex items-center gap-3">
+        <input ref={promptInputRef} type="text" value={prompt} onChange={(e) => onPromptChange(e.target.value)} placeholder={hasMask ? "e.g., 'remove the scar'" : "First paint a mask on the image"} className="flex-grow bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-4 text-lg focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60" disabled={isLoading || !hasMask} />
+        <button type="submit" className="gradient-button bg-gradient-to-br from-violet-600 to-purple-600 text-white font-bold py-4 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-gray-700 disabled:to-gray-600 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !prompt.trim() || !hasMask}>
+          Generate
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RetouchPanel;
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { getSettings, saveSettings, type AppSettings } from '../services/settings';
+import { getSchedulerLimits } from '../services/missionScheduler';
+import { getVideoDeadlineMinutes } from '../services/videoPolling';
+import { areNotificationsSupported, requestNotificationPermission } from '../services/notifications';
+import { getAIProvider, setAIProvider, type ProviderName } from '../services/aiProvider';
+
+interface SettingsModalProps {
+    onClose: () => void;
+    onSaved: (settings: AppSettings) => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, onSaved }) => {
+    const [provider, setProvider] = useState<ProviderName>(getAIProvider().name);
+    const [apiKey, setApiKey] = useState(getSettings().apiKey ?? '');
+    const [limits, setLimits] = useState(() => getSchedulerLimits(getSettings()));
+    const [videoDeadlineMinutes, setVideoDeadlineMinutes] = useState(() => getVideoDeadlineMinutes(getSettings()));
+    const [notificationsEnabled, setNotificationsEnabled] = useState(!!getSettings().notificationsEnabled);
+    const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+
+    const handleSave = () => {
+        const settings: AppSettings = { ...getSettings(), provider, apiKey: apiKey.trim() || undefined, ...limits, videoDeadlineMinutes, notificationsEnabled };
+        saveSettings(settings);
+        setAIProvider(provider);
+        onSaved(settings);
+        onClose();
+    };
+
+    const handleLimitChange = (key: keyof typeof limits, value: string) => {
+        const parsed = Math.round(Number(value));
+        setLimits(prev => ({ ...prev, [key]: Math.min(Math.max(Number.isFinite(parsed) ? parsed : 1, 1), 8) }));
+    };
+
+    const handleDeadlineChange = (value: string) => {
+        const parsed = Math.round(Number(value));
+        setVideoDeadlineMinutes(Math.min(Math.max(Number.isFinite(parsed) ? parsed : 1, 1), 120));
+    };
+
+    const handleNotificationsToggle = async (enabled: boolean) => {
+        // Permission is asked for when the option is switched on, not at startup.
+        const granted = !enabled || await requestNotificationPermission();
+        setNotificationsBlocked(!granted);
+        setNotificationsEnabled(enabled && granted);
+    };
+
+    const providers: { name: ProviderName, label: string }[] = [
+        { name: 'gemini', label: 'Gemini' },
+        { name: 'local', label: 'Offline (local)' },
+    ];
+
+    return (
+        <div className="preview-overlay" onClick={onClose}>
+            <div className="preview-content" style={{ maxWidth: '28rem' }} onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <h3 className="text-xl font-bold text-gray-100">Settings</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl font-bold">&times;</button>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">AI provider</span>
+                    <div className="flex items-center gap-2">
+                        {providers.map(({ name, label }) => (
+                            <button
+                                key={name}
+                                onClick={() => setProvider(name)}
+                                className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+                                    provider === name
+                                    ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+                                    : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">Gemini API key</span>
+                    <input
+                        type="password"
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        placeholder="Leave empty to use the key from .env.local"
+                        className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base"
+                    />
+                </label>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">Missions running at the same time</span>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                            Image missions
+                            <input type="number" min={1} max={8} value={limits.maxConcurrentImageJobs} onChange={(e) => handleLimitChange('maxConcurrentImageJobs', e.target.value)} className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base" />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                            Video missions
+                            <input type="number" min={1} max={8} value={limits.maxConcurrentVideoJobs} onChange={(e) => handleLimitChange('maxConcurrentVideoJobs', e.target.value)} className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base" />
+                        </label>
+                    </div>
+                </div>
+
+                <label className="flex flex-col gap-2">
+                    <span className="text-sm font-medium text-purple-200/80">Give up on a video after (minutes)</span>
+                    <input type="number" min={1} max={120} value={videoDeadlineMinutes} onChange={(e) => handleDeadlineChange(e.target.value)} className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base" />
+                    <span className="text-xs text-purple-300/50">A timed-out video can be resumed from the Missions panel without starting over.</span>
+                </label>
+
+                {areNotificationsSupported() && (
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input type="checkbox" checked={notificationsEnabled} onChange={(e) => handleNotificationsToggle(e.target.checked)} className="mt-1 accent-purple-500" />
+                        <span className="flex flex-col gap-1">
+                            <span className="text-sm font-medium text-purple-200/80">Notify me when a mission finishes</span>
+                            <span className="text-xs text-purple-300/50">
+                                {notificationsBlocked ? 'Notifications are blocked for this site. Allow them in your browser settings first.' : 'Shown while Peter Pixx is in the background.'}
+                            </span>
+                        </span>
+                    </label>
+                )}
+
+                <button onClick={handleSave} className="gradient-button w-full bg-gradient-to-br from-violet-600 to-purple-600 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base">Save</button>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsModal;
@@ -7,14 +7,17 @@ import React, { useState } from 'react';
 import { UploadIcon, GenerateImageIcon, GenerateVideoIcon, PreciseRetouchingIcon, CreativeFiltersIcon, AdjustmentsIcon } from './icons';
 import type { Mission } from '../App';
 import Spinner from './Spinner';
+import RecentSessions from './RecentSessions';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
   onNavigate: (view: 'image-gen' | 'video-gen') => void;
   missions: Mission[];
+  onResumeSession: (sessionId: string) => void;
+  onSessionError: (error: unknown) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onNavigate, missions }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onNavigate, missions, onResumeSession, onSessionError }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -79,6 +82,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onNavigate, mis
             </div>
         )}
 
+        <RecentSessions onResume={onResumeSession} onError={onSessionError} />
+
         <div className="mt-20 w-full">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 <div className="bg-purple-950/40 p-6 rounded-lg border border-purple-800/40 flex flex-col items-center text-center animated-panel">
@@ -87,7 +92,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onNavigate, mis
                        <PreciseRetouchingIcon className="w-7 h-7 text-purple-300" />
                     </div>
                     <h3 className="text-xl font-bold text-gray-100">Precise Retouching</h3>
-                    <p className="mt-2 text-purple-200/70">Click any point on your image to remove blemishes, change colors, or add elements with pinpoint accuracy.</p>
+                    <p className="mt-2 text-purple-200/70">Paint a mask over any area of your image to remove blemishes, change colors, or add elements with pinpoint accuracy.</p>
                 </div>
                 <div className="bg-purple-950/40 p-6 rounded-lg border border-purple-800/40 flex flex-col items-center text-center animated-panel">
                     <div className="relative flex items-center justify-center w-12 h-12 bg-purple-900/50 rounded-lg mb-4">
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { Mission } from '../App';
+import { formatBytes, getResultSizes, getStorageEstimate } from '../services/storage';
+import { getSettings, saveSettings, type AppSettings } from '../services/settings';
+import { GenerateImageIcon, GenerateVideoIcon, PinIcon } from './icons';
+import Spinner from './Spinner';
+
+interface StorageModalProps {
+    missions: Mission[];
+    onClose: () => void;
+    onTogglePin: (mission: Mission) => void;
+    onPolicySaved: (settings: AppSettings) => void;
+}
+
+const parseLimit = (value: string): number | undefined => {
+    const parsed = Number(value);
+    return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const StorageModal: React.FC<StorageModalProps> = ({ missions, onClose, onTogglePin, onPolicySaved }) => {
+    const [sizes, setSizes] = useState<Record<string, number> | null>(null);
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [maxStorageMB, setMaxStorageMB] = useState(String(getSettings().maxStorageMB ?? ''));
+    const [maxResultAgeDays, setMaxResultAgeDays] = useState(String(getSettings().maxResultAgeDays ?? ''));
+
+    // Re-measure whenever missions change, e.g. after an eviction.
+    useEffect(() => {
+        let active = true;
+        Promise.all([getResultSizes(), getStorageEstimate()])
+            .then(([resultSizes, storageEstimate]) => {
+                if (!active) return;
+                setSizes(resultSizes);
+                setEstimate(storageEstimate);
+            })
+            .catch(error => {
+                console.error("Failed to measure storage usage", error);
+                if (active) setSizes({});
+            });
+        return () => { active = false; };
+    }, [missions]);
+
+    const handleSavePolicy = () => {
+        const settings: AppSettings = { ...getSettings(), maxStorageMB: parseLimit(maxStorageMB), maxResultAgeDays: parseLimit(maxResultAgeDays) };
+        saveSettings(settings);
+        onPolicySaved(settings);
+    };
+
+    const storedMissions = [...missions].reverse().filter(m => m.result || m.evicted);
+    const totalResultBytes = sizes ? Object.values(sizes).reduce((sum, size) => sum + size, 0) : 0;
+    const usagePercent = estimate?.usage && estimate.quota ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+    const inputClassName = "bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base";
+
+    return (
+        <div className="preview-overlay" onClick={onClose}>
+            <div className="preview-content" style={{ maxWidth: '36rem' }} onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-4">
+                    <h3 className="text-xl font-bold text-gray-100">Storage</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl font-bold">&times;</button>
+                </div>
+
+                {sizes === null ? <div className="flex justify-center p-6"><Spinner /></div> : (
+                    <>
+                        <div className="flex flex-col gap-2">
+                            <div className="flex justify-between text-sm text-purple-200/80">
+                                <span>Mission results: <span className="font-semibold text-gray-100">{formatBytes(totalResultBytes)}</span></span>
+                                {estimate?.usage !== undefined && estimate.quota !== undefined && (
+                                    <span>Browser: {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+                                )}
+                            </div>
+                            {estimate?.quota !== undefined && (
+                                <div className="h-2 w-full rounded-full bg-purple-950/60 overflow-hidden">
+                                    <div className="h-full bg-violet-500" style={{ width: `${usagePercent}%` }} />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex flex-col gap-2">
+                            <span className="text-sm font-medium text-purple-200/80">Eviction policy</span>
+                            <p className="text-xs text-purple-300/60">When a limit is exceeded, the oldest unpinned results are removed first. The missions stay listed so you can regenerate them.</p>
+                            <div className="grid grid-cols-2 gap-3">
+                                <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                                    Max total size (MB)
+                                    <input type="number" min={1} value={maxStorageMB} onChange={(e) => setMaxStorageMB(e.target.value)} placeholder="No limit" className={inputClassName} />
+                                </label>
+                                <label className="flex flex-col gap-1 text-xs text-purple-300/70">
+                                    Max age (days)
+                                    <input type="number" min={1} value={maxResultAgeDays} onChange={(e) => setMaxResultAgeDays(e.target.value)} placeholder="No limit" className={inputClassName} />
+                                </label>
+                            </div>
+                            <button onClick={handleSavePolicy} className="self-end text-sm bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-1.5 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95">Apply policy</button>
+                        </div>
+
+                        <div className="flex flex-col max-h-72 overflow-y-auto border border-purple-500/10 rounded-lg">
+                            {storedMissions.length === 0 ? (
+                                <p className="p-4 text-center text-sm text-purple-300/40">No stored results.</p>
+                            ) : storedMissions.map(mission => (
+                                <div key={mission.id} className="flex items-center gap-3 p-2 border-b border-purple-500/10 last:border-b-0">
+                                    {mission.type === 'image-gen' ? <GenerateImageIcon className="w-4 h-4 text-purple-400 flex-shrink-0" /> : <GenerateVideoIcon className="w-4 h-4 text-purple-400 flex-shrink-0" />}
+                                    <div className="flex-grow overflow-hidden">
+                                        <p className="text-sm text-gray-200 truncate">{mission.prompt}</p>
+                                        <p className="text-xs text-purple-300/60">
+                                            {new Date(mission.createdAt).toLocaleDateString()} &middot; {mission.evicted ? 'Evicted' : formatBytes(sizes[mission.id] ?? 0)}
+                                        </p>
+                                    </div>
+                                    {!mission.evicted && (
+                                        <button onClick={() => onTogglePin(mission)} title={mission.pinned ? 'Unpin' : 'Pin to keep'} className={`p-1.5 rounded-md transition-colors ${mission.pinned ? 'text-amber-300 hover:text-amber-200' : 'text-purple-300/40 hover:text-purple-200'}`}>
+                                            <PinIcon className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StorageModal;
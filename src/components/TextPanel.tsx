@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { UploadIcon } from './icons';
+import { FONT_FAMILIES, FONT_WEIGHTS, getTextLayerName, MAX_FONT_SIZE, MIN_FONT_SIZE, type LayerChanges, type TextAlign, type TextLayer, type TextStyle } from '../services/layers';
+
+interface TextPanelProps {
+  // The active layer, when it is a text layer.
+  textLayer: TextLayer | null;
+  onAddText: () => void;
+  onAddSticker: (file: File) => void;
+  onChangeLayer: (id: string, changes: LayerChanges) => void;
+  isLoading: boolean;
+}
+
+const ALIGNMENTS: { align: TextAlign, label: string }[] = [
+  { align: 'left', label: 'Left' },
+  { align: 'center', label: 'Center' },
+  { align: 'right', label: 'Right' },
+];
+
+const inputClassName = 'bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:outline-none transition text-sm disabled:opacity-50';
+
+const chipClassName = (isActive: boolean) => `flex-1 px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+  isActive
+  ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+  : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+}`;
+
+const SliderRow: React.FC<{ label: string, value: number, min: number, max: number, onChange: (value: number) => void }> = ({ label, value, min, max, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-purple-200/80">
+    <span className="w-20">{label}</span>
+    <input type="range" min={min} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-grow accent-purple-500" />
+    <span className="w-10 text-right font-mono">{value}</span>
+  </label>
+);
+
+// Adds text and stickers as layers, and styles the active text layer. Both
+// stay editable until the layers are flattened.
+const TextPanel: React.FC<TextPanelProps> = ({ textLayer, onAddText, onAddSticker, onChangeLayer, isLoading }) => {
+  const stickerInputRef = useRef<HTMLInputElement>(null);
+
+  const updateStyle = (changes: Partial<TextStyle>) => {
+    if (textLayer) onChangeLayer(textLayer.id, { style: { ...textLayer.style, ...changes } });
+  };
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-2xl animated-panel">
+      <h3 className="text-lg font-semibold text-center text-purple-200">Text & Stickers</h3>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={onAddText} disabled={isLoading} className="bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+          Add Text
+        </button>
+        <button onClick={() => stickerInputRef.current?.click()} disabled={isLoading} className="flex items-center gap-2 bg-purple-900/40 border border-purple-500/20 text-purple-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-purple-800/60 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+          <UploadIcon className="w-4 h-4" />Add Sticker or Logo
+        </button>
+        <input
+          ref={stickerInputRef}
+          type="file"
+          accept="image/png,image/svg+xml,.png,.svg"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onAddSticker(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {textLayer ? (
+        <div className="flex flex-col gap-3">
+          <textarea
+            value={textLayer.text}
+            onChange={(e) => onChangeLayer(textLayer.id, { text: e.target.value, name: getTextLayerName(e.target.value) })}
+            rows={2}
+            className={`${inputClassName} w-full resize-y`}
+            placeholder="Type your caption"
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <select value={textLayer.style.fontFamily} onChange={(e) => updateStyle({ fontFamily: e.target.value })} className={inputClassName} aria-label="Font">
+              {FONT_FAMILIES.map(({ label, value }) => <option key={label} value={value} style={{ fontFamily: value }}>{label}</option>)}
+            </select>
+            <select value={textLayer.style.fontWeight} onChange={(e) => updateStyle({ fontWeight: Number(e.target.value) })} className={inputClassName} aria-label="Weight">
+              {FONT_WEIGHTS.map(({ label, value }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-purple-200/80">
+              Size
+              <input
+                type="number"
+                min={MIN_FONT_SIZE}
+                max={MAX_FONT_SIZE}
+                value={textLayer.style.fontSize}
+                onChange={(e) => {
+                  const fontSize = Math.round(Number(e.target.value));
+                  if (fontSize >= MIN_FONT_SIZE && fontSize <= MAX_FONT_SIZE) updateStyle({ fontSize });
+                }}
+                className={`${inputClassName} w-full`}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-purple-200/80">
+              <input type="color" value={textLayer.style.color} onChange={(e) => updateStyle({ color: e.target.value })} className="w-8 h-8 bg-transparent rounded cursor-pointer" />
+              Color
+            </label>
+            <div className="flex flex-grow gap-1">
+              {ALIGNMENTS.map(({ align, label }) => (
+                <button key={align} onClick={() => updateStyle({ align })} className={chipClassName(textLayer.style.align === align)}>{label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 pt-3 border-t border-purple-800/50">
+            <div className="flex items-center gap-2">
+              <input type="color" value={textLayer.style.strokeColor} onChange={(e) => updateStyle({ strokeColor: e.target.value })} className="w-8 h-8 bg-transparent rounded cursor-pointer" aria-label="Outline color" />
+              <div className="flex-grow"><SliderRow label="Outline" value={textLayer.style.strokeWidth} min={0} max={40} onChange={(strokeWidth) => updateStyle({ strokeWidth })} /></div>
+            </div>
+            <div className="flex items-center gap-2">
+              <input type="color" value={textLayer.style.shadowColor} onChange={(e) => updateStyle({ shadowColor: e.target.value })} className="w-8 h-8 bg-transparent rounded cursor-pointer" aria-label="Shadow color" />
+              <div className="flex-grow flex flex-col gap-1">
+                <SliderRow label="Shadow blur" value={textLayer.style.shadowBlur} min={0} max={60} onChange={(shadowBlur) => updateStyle({ shadowBlur })} />
+                <SliderRow label="Distance" value={textLayer.style.shadowDistance} min={0} max={60} onChange={(shadowDistance) => updateStyle({ shadowDistance })} />
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-center text-purple-300/60">Select a text layer to edit it, or add one. Drag on the image to place it.</p>
+      )}
+    </div>
+  );
+};
+
+export default TextPanel;
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { VIDEO_ASPECT_RATIOS, VIDEO_COUNTS, VIDEO_DURATIONS, type VideoGenerationParams } from '../services/generationParams';
+
+interface VideoParamsPanelProps {
+  params: VideoGenerationParams;
+  onChange: (params: VideoGenerationParams) => void;
+  disabled: boolean;
+}
+
+const chipClassName = (isActive: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+  isActive
+  ? 'bg-violet-600 text-white shadow-md shadow-violet-500/20'
+  : 'bg-purple-900/40 hover:bg-purple-800/60 text-purple-200'
+}`;
+
+const VideoParamsPanel: React.FC<VideoParamsPanelProps> = ({ params, onChange, disabled }) => {
+  const update = (updates: Partial<VideoGenerationParams>) => onChange({ ...params, ...updates });
+
+  return (
+    <div className="w-full bg-purple-950/50 border border-purple-800/50 rounded-xl p-4 grid grid-cols-1 md:grid-cols-3 gap-4 backdrop-blur-2xl">
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Aspect ratio</span>
+        <div className="flex flex-wrap gap-2">
+          {VIDEO_ASPECT_RATIOS.map(ratio => (
+            <button key={ratio} type="button" onClick={() => update({ aspectRatio: ratio })} disabled={disabled} className={chipClassName(params.aspectRatio === ratio)}>{ratio}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Duration</span>
+        <div className="flex flex-wrap gap-2">
+          {VIDEO_DURATIONS.map(seconds => (
+            <button key={seconds} type="button" onClick={() => update({ durationSeconds: seconds })} disabled={disabled} className={chipClassName(params.durationSeconds === seconds)}>{seconds}s</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-purple-200/80">Videos</span>
+        <div className="flex flex-wrap gap-2">
+          {VIDEO_COUNTS.map(count => (
+            <button key={count} type="button" onClick={() => update({ numberOfVideos: count })} disabled={disabled} className={chipClassName(params.numberOfVideos === count)}>{count}</button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-2 md:col-span-3">
+        <span className="text-sm font-medium text-purple-200/80">Negative prompt</span>
+        <input
+          type="text"
+          value={params.negativePrompt ?? ''}
+          onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+          placeholder="Things to keep out of the video, e.g. 'shaky camera, text'"
+          disabled={disabled}
+          className="bg-purple-950/50 border border-purple-800 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:outline-none transition w-full text-base disabled:opacity-60"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default VideoParamsPanel;
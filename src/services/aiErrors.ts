@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { delay, isAbortError } from './abort';
+
+export type AIErrorType =
+    | 'safety-block'
+    | 'finish-reason'
+    | 'text-instead-of-image'
+    | 'rate-limit'
+    | 'network'
+    | 'invalid-key'
+    | 'timeout'
+    | 'unknown';
+
+// Base class for every error surfaced by the AI layer. `retryable` marks the
+// transient classes that are retried automatically with backoff.
+export class AIServiceError extends Error {
+    readonly type: AIErrorType = 'unknown';
+    readonly retryable: boolean = false;
+
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'AIServiceError';
+    }
+}
+
+export class SafetyBlockError extends AIServiceError {
+    readonly type = 'safety-block';
+    readonly blockReason: string;
+
+    constructor(blockReason: string, message?: string) {
+        super(`Request was blocked. Reason: ${blockReason}. ${message || ''}`.trim());
+        this.name = 'SafetyBlockError';
+        this.blockReason = blockReason;
+    }
+}
+
+export class FinishReasonError extends AIServiceError {
+    readonly type = 'finish-reason';
+    readonly finishReason: string;
+
+    constructor(finishReason: string, context: string) {
+        super(`Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`);
+        this.name = 'FinishReasonError';
+        this.finishReason = finishReason;
+    }
+}
+
+export class TextInsteadOfImageError extends AIServiceError {
+    readonly type = 'text-instead-of-image';
+    readonly text: string;
+
+    constructor(text: string, context: string) {
+        super(`The AI model did not return an image for the ${context}. ` +
+            (text
+                ? `The model responded with text: "${text}"`
+                : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct."));
+        this.name = 'TextInsteadOfImageError';
+        this.text = text;
+    }
+}
+
+export class RateLimitError extends AIServiceError {
+    readonly type = 'rate-limit';
+    readonly retryable = true;
+
+    constructor(message = "The AI service is rate limiting requests or the quota is exhausted.", options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class NetworkError extends AIServiceError {
+    readonly type = 'network';
+    readonly retryable = true;
+
+    constructor(message = "Could not reach the AI service. Check your connection.", options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class InvalidApiKeyError extends AIServiceError {
+    readonly type = 'invalid-key';
+
+    constructor(message = "The API key was rejected. Check it in Settings.", options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+export class TimeoutError extends AIServiceError {
+    readonly type = 'timeout';
+    readonly retryable = true;
+
+    constructor(message = "The AI service took too long to respond.", options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'TimeoutError';
+    }
+}
+
+// A video operation that is still running when its deadline passes. Not
+// retried automatically: the saved operation is resumed on request instead.
+export class DeadlineExceededError extends AIServiceError {
+    readonly type = 'timeout';
+
+    constructor(minutes: number) {
+        super(`Video generation did not finish within ${minutes} minute${minutes === 1 ? '' : 's'}. Resume the mission to keep waiting for the same operation.`);
+        this.name = 'DeadlineExceededError';
+    }
+}
+
+// A download that completed but did not contain a playable video, e.g. an
+// HTML error page or an empty body.
+export class InvalidVideoError extends AIServiceError {
+    constructor(detail: string) {
+        super(`The downloaded file is not a video (${detail}). Retry the download.`);
+        this.name = 'InvalidVideoError';
+    }
+}
+
+const getStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+// Maps anything thrown by a provider, the SDK or fetch onto the error hierarchy.
+export const classifyError = (error: unknown): AIServiceError => {
+    if (error instanceof AIServiceError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const options = { cause: error };
+    const status = getStatus(error);
+
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) {
+        return new InvalidApiKeyError(undefined, options);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new RateLimitError(undefined, options);
+    }
+    if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)
+        || (error instanceof DOMException && error.name === 'TimeoutError')) {
+        return new TimeoutError(undefined, options);
+    }
+    if ((status !== undefined && status >= 500) || (error instanceof TypeError && /fetch|network/i.test(message))) {
+        return new NetworkError(undefined, options);
+    }
+    return new AIServiceError(message || 'An unknown error occurred.', options);
+};
+
+interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    // Narrows which retryable errors are retried; defaults to all of them.
+    retryIf?: (error: AIServiceError) => boolean;
+}
+
+// Runs `fn`, retrying transient failures with exponential backoff and jitter.
+// Abort errors pass straight through; everything else is rethrown classified.
+export const withRetry = async <T>(
+    fn: () => Promise<T>,
+    { retries = 3, baseDelayMs = 1000, maxDelayMs = 8000, signal, retryIf = () => true }: RetryOptions = {}
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (isAbortError(err) || signal?.aborted) throw err;
+            const error = classifyError(err);
+            if (!error.retryable || !retryIf(error) || attempt >= retries) throw error;
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const wait = backoff / 2 + Math.random() * (backoff / 2);
+            console.warn(`${error.name}: retrying in ${Math.round(wait)}ms (attempt ${attempt + 1} of ${retries}).`, error);
+            await delay(wait, signal);
+        }
+    }
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CropSuggestion } from '../App';
+import { geminiProvider } from './geminiService';
+import { localProvider } from './localProvider';
+import { RateLimitError, withRetry } from './aiErrors';
+import { getSettings } from './settings';
+import type { ImageGenerationParams, VideoGenerationParams } from './generationParams';
+
+export type ProviderName = 'gemini' | 'local';
+
+// Minimal shape of a long-running video operation. Providers may attach extra
+// fields, but the app only relies on these when polling and downloading.
+export interface VideoOperation {
+    name?: string;
+    done?: boolean;
+    metadata?: Record<string, unknown>;
+    response?: {
+        generatedVideos?: { video?: { uri?: string; mimeType?: string } }[];
+    };
+    error?: Record<string, unknown>;
+}
+
+// Every AI capability the app uses. Image-returning methods resolve to a
+// data URL; text-to-image resolves to raw base64 image bytes. Edit masks are
+// black and white PNGs where white marks the region to change. Every method
+// accepts an optional AbortSignal and rejects with an AbortError when it fires.
+export interface AIProvider {
+    readonly name: ProviderName;
+    generateEditedImage(originalImage: File, userPrompt: string, mask: File, signal?: AbortSignal): Promise<string>;
+    generateFilteredImage(originalImage: File, filterPrompt: string, signal?: AbortSignal): Promise<string>;
+    removeBackgroundImage(originalImage: File, signal?: AbortSignal): Promise<string>;
+    upscaleImage(originalImage: File, signal?: AbortSignal): Promise<string>;
+    balanceImageColors(originalImage: File, colorPrompt: string, signal?: AbortSignal): Promise<string>;
+    generateImageFromPrompt(prompt: string, params: ImageGenerationParams, signal?: AbortSignal): Promise<string[]>;
+    generateVideoFromPrompt(prompt: string, params: VideoGenerationParams, referenceImage?: File, signal?: AbortSignal): Promise<VideoOperation>;
+    checkVideoOperationStatus(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation>;
+    downloadVideos(operation: VideoOperation, signal?: AbortSignal): Promise<Blob[]>;
+    enhancePrompt(idea: string, signal?: AbortSignal): Promise<string>;
+    analyzeVideoFrame(base64ImageData: string, signal?: AbortSignal): Promise<string>;
+    getAICropSuggestions(image: File, signal?: AbortSignal): Promise<CropSuggestion[]>;
+}
+
+const providers: Record<ProviderName, AIProvider> = {
+    gemini: geminiProvider,
+    local: localProvider,
+};
+
+const isProviderName = (value: unknown): value is ProviderName =>
+    typeof value === 'string' && Object.hasOwn(providers, value);
+
+// The provider is chosen once at startup: a `?provider=` query parameter wins
+// over the one saved in Settings, then the AI_PROVIDER build variable, and
+// Gemini is the default.
+const resolveStartupProvider = (): ProviderName => {
+    const fromQuery = typeof window !== 'undefined'
+        ? new URLSearchParams(window.location.search).get('provider')
+        : null;
+    if (isProviderName(fromQuery)) return fromQuery;
+    const fromSettings = getSettings().provider;
+    if (isProviderName(fromSettings)) return fromSettings;
+    if (isProviderName(process.env.AI_PROVIDER)) return process.env.AI_PROVIDER;
+    return 'gemini';
+};
+
+let activeProvider: AIProvider = providers[resolveStartupProvider()];
+
+export const getAIProvider = (): AIProvider => activeProvider;
+
+export const setAIProvider = (name: ProviderName) => {
+    activeProvider = providers[name];
+};
+
+// Call-through helpers so components don't need to know which provider is
+// active. Transient failures of calls that don't bill are retried, and every
+// error comes out typed.
+const call = <T>(fn: (provider: AIProvider) => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    withRetry(() => fn(activeProvider), { signal });
+
+// For billed image calls: a timed-out or dropped request may still have
+// been processed and paid for, so only rate limits, which reject the request
+// before any work is done, are retried. Anything else is left to the error
+// toast's Retry.
+const callBilled = <T>(fn: (provider: AIProvider) => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    withRetry(() => fn(activeProvider), { signal, retryIf: error => error instanceof RateLimitError });
+
+// For calls that start billed work on the server: a timed-out request may
+// still have been accepted, so retrying could pay for it twice. Failures are
+// left to the caller (for videos, the mission's own retry).
+const callOnce = <T>(fn: (provider: AIProvider) => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    withRetry(() => fn(activeProvider), { retries: 0, signal });
+
+export const generateEditedImage: AIProvider['generateEditedImage'] = (originalImage, userPrompt, mask, signal) =>
+    callBilled(p => p.generateEditedImage(originalImage, userPrompt, mask, signal), signal);
+export const generateFilteredImage: AIProvider['generateFilteredImage'] = (originalImage, filterPrompt, signal) =>
+    callBilled(p => p.generateFilteredImage(originalImage, filterPrompt, signal), signal);
+export const removeBackgroundImage: AIProvider['removeBackgroundImage'] = (originalImage, signal) =>
+    callBilled(p => p.removeBackgroundImage(originalImage, signal), signal);
+export const upscaleImage: AIProvider['upscaleImage'] = (originalImage, signal) =>
+    callBilled(p => p.upscaleImage(originalImage, signal), signal);
+export const balanceImageColors: AIProvider['balanceImageColors'] = (originalImage, colorPrompt, signal) =>
+    callBilled(p => p.balanceImageColors(originalImage, colorPrompt, signal), signal);
+export const generateImageFromPrompt: AIProvider['generateImageFromPrompt'] = (prompt, params, signal) =>
+    callBilled(p => p.generateImageFromPrompt(prompt, params, signal), signal);
+export const generateVideoFromPrompt: AIProvider['generateVideoFromPrompt'] = (prompt, params, referenceImage, signal) =>
+    callOnce(p => p.generateVideoFromPrompt(prompt, params, referenceImage, signal), signal);
+export const checkVideoOperationStatus: AIProvider['checkVideoOperationStatus'] = (operation, signal) =>
+    call(p => p.checkVideoOperationStatus(operation, signal), signal);
+export const downloadVideos: AIProvider['downloadVideos'] = (operation, signal) =>
+    call(p => p.downloadVideos(operation, signal), signal);
+export const enhancePrompt: AIProvider['enhancePrompt'] = (idea, signal) =>
+    call(p => p.enhancePrompt(idea, signal), signal);
+export const analyzeVideoFrame: AIProvider['analyzeVideoFrame'] = (base64ImageData, signal) =>
+    call(p => p.analyzeVideoFrame(base64ImageData, signal), signal);
+export const getAICropSuggestions: AIProvider['getAICropSuggestions'] = (image, signal) =>
+    call(p => p.getAICropSuggestions(image, signal), signal);
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The editor's undo history, kept as a tree so that undoing and making a
+// different edit starts a new branch instead of discarding the old one.
+// Nodes don't hold their full-resolution image; historyImages.ts keeps those
+// by node id.
+
+export type EditOperation = 'original' | 'retouch' | 'filter' | 'adjust' | 'remove-background' | 'upscale' | 'crop' | 'rotate' | 'flip' | 'straighten' | 'resize' | 'flatten';
+
+export const EDIT_OPERATION_LABELS: Record<EditOperation, string> = {
+    'original': 'Original',
+    'retouch': 'Retouch',
+    'filter': 'Filter',
+    'adjust': 'Adjust',
+    'remove-background': 'Remove background',
+    'upscale': 'Upscale',
+    'crop': 'Crop',
+    'rotate': 'Rotate',
+    'flip': 'Flip',
+    'straighten': 'Straighten',
+    'resize': 'Resize',
+    'flatten': 'Flatten layers',
+};
+
+export interface HistoryNode {
+    id: string;
+    parentId: string | null;
+    operation: EditOperation;
+    prompt?: string;
+    thumbnail?: Blob; // Filled in once it has been rendered
+    createdAt: number;
+}
+
+export interface EditHistory {
+    nodes: Record<string, HistoryNode>;
+    rootId: string | null;
+    currentId: string | null;
+    // The child Redo moves to from each node: the branch visited or created last.
+    redoTargets: Record<string, string>;
+}
+
+export const EMPTY_HISTORY: EditHistory = { nodes: {}, rootId: null, currentId: null, redoTargets: {} };
+
+let nodeCounter = 0;
+const createNodeId = () => `edit_${Date.now()}_${nodeCounter++}`;
+
+export const createHistory = (): EditHistory => {
+    const root: HistoryNode = { id: createNodeId(), parentId: null, operation: 'original', createdAt: Date.now() };
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id, redoTargets: {} };
+};
+
+// Adds an edit as a child of the current node and selects it.
+export const addHistoryNode = (
+    history: EditHistory,
+    operation: EditOperation,
+    prompt?: string
+): { history: EditHistory, node: HistoryNode } => {
+    const node: HistoryNode = { id: createNodeId(), parentId: history.currentId, operation, prompt, createdAt: Date.now() };
+    const redoTargets = history.currentId ? { ...history.redoTargets, [history.currentId]: node.id } : history.redoTargets;
+    return {
+        history: { ...history, nodes: { ...history.nodes, [node.id]: node }, rootId: history.rootId ?? node.id, currentId: node.id, redoTargets },
+        node,
+    };
+};
+
+export const getCurrentNode = (history: EditHistory): HistoryNode | null =>
+    history.currentId ? history.nodes[history.currentId] ?? null : null;
+
+export const getRootNode = (history: EditHistory): HistoryNode | null =>
+    history.rootId ? history.nodes[history.rootId] ?? null : null;
+
+export const getChildren = (history: EditHistory, id: string): HistoryNode[] =>
+    Object.values(history.nodes)
+        .filter(node => node.parentId === id)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+// Ids from the root down to `id`, inclusive.
+export const getPathToNode = (history: EditHistory, id: string): string[] => {
+    const path: string[] = [];
+    for (let node: HistoryNode | undefined = history.nodes[id]; node; node = node.parentId ? history.nodes[node.parentId] : undefined) {
+        path.unshift(node.id);
+    }
+    return path;
+};
+
+// Edits that move pixels to other places in the image. A resize is not one:
+// it scales the whole image, so a point's position relative to the image's
+// size stays on the same detail.
+const REPOSITIONING_OPERATIONS: ReadonlySet<EditOperation> = new Set(['crop', 'rotate', 'flip', 'straighten']);
+
+// Whether any edit between the original and `id` moved pixels around, so
+// the same relative point no longer shows the same detail in both.
+export const hasRepositionedPixels = (history: EditHistory, id: string): boolean =>
+    getPathToNode(history, id).some(nodeId => REPOSITIONING_OPERATIONS.has(history.nodes[nodeId].operation));
+
+// Jumps to any node. Redo from its ancestors then leads back down to it.
+export const selectHistoryNode = (history: EditHistory, id: string): EditHistory => {
+    if (!history.nodes[id]) return history;
+    const redoTargets = { ...history.redoTargets };
+    const path = getPathToNode(history, id);
+    for (let i = 0; i < path.length - 1; i++) {
+        redoTargets[path[i]] = path[i + 1];
+    }
+    return { ...history, currentId: id, redoTargets };
+};
+
+export const canUndoHistory = (history: EditHistory): boolean => !!getCurrentNode(history)?.parentId;
+
+export const canRedoHistory = (history: EditHistory): boolean =>
+    !!history.currentId && !!history.redoTargets[history.currentId];
+
+export const undoHistory = (history: EditHistory): EditHistory => {
+    const parentId = getCurrentNode(history)?.parentId;
+    return parentId ? { ...history, currentId: parentId } : history;
+};
+
+export const redoHistory = (history: EditHistory): EditHistory => {
+    const childId = history.currentId ? history.redoTargets[history.currentId] : undefined;
+    return childId ? { ...history, currentId: childId } : history;
+};
+
+// Back to the original image; Redo retraces the branch that was selected.
+export const resetToRoot = (history: EditHistory): EditHistory => {
+    if (!history.rootId || !history.currentId) return history;
+    return { ...selectHistoryNode(history, history.currentId), currentId: history.rootId };
+};
+
+export const setNodeThumbnail = (history: EditHistory, id: string, thumbnail: Blob): EditHistory => {
+    const node = history.nodes[id];
+    return node ? { ...history, nodes: { ...history.nodes, [id]: { ...node, thumbnail } } } : history;
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EditorSource } from '../App';
+import { EMPTY_HISTORY, type EditHistory, type HistoryNode } from './editHistory';
+import { createLayerStack, isImageLayer, type Layer } from './layers';
+import { saveEditorSession, type EditorSession, type EditorSessionImage, type EditorSessionNode } from './storage';
+
+// What the editor needs to pick up where it left off.
+export interface EditorSessionState {
+    history: EditHistory;
+    activeTab: string;
+    prompt: string;
+    source: EditorSource | null;
+    layers: Layer[];
+}
+
+export interface SessionWriter {
+    readonly id: string;
+    save: (state: EditorSessionState) => Promise<void>;
+}
+
+// Saves one session's tree and thumbnails; the images are written by
+// historyImages.ts as they are made. It remembers which thumbnails are
+// already stored, so each save only writes new ones. Saves run one at a time
+// in the order they were requested.
+export const createSessionWriter = (
+    session: Pick<EditorSession, 'id' | 'name' | 'createdAt'>,
+    storedNodes: HistoryNode[] = []
+): SessionWriter => {
+    const writtenThumbnails = new Set(storedNodes.filter(node => node.thumbnail).map(node => node.id));
+    let queue = Promise.resolve();
+
+    const write = async ({ history, activeTab, prompt, source, layers }: EditorSessionState) => {
+        if (!history.rootId || !history.currentId) return;
+        const nodes = Object.values(history.nodes);
+        const newThumbnails = nodes.filter(node => node.thumbnail && !writtenThumbnails.has(node.id));
+
+        await saveEditorSession(
+            {
+                ...session,
+                updatedAt: Date.now(),
+                nodes: Object.fromEntries(nodes.map(({ id, parentId, operation, prompt: nodePrompt, createdAt }): [string, EditorSessionNode] =>
+                    [id, { id, parentId, operation, prompt: nodePrompt, createdAt }])),
+                rootId: history.rootId,
+                currentId: history.currentId,
+                redoTargets: history.redoTargets,
+                activeTab,
+                prompt,
+                source,
+                layers,
+            },
+            newThumbnails.map(({ id, thumbnail }) => ({ id, thumbnail: thumbnail! })),
+        );
+        newThumbnails.forEach(node => writtenThumbnails.add(node.id));
+    };
+
+    return {
+        id: session.id,
+        save: (state) => {
+            // A failed save must not block the ones after it.
+            queue = queue.catch(() => {}).then(() => write(state));
+            return queue;
+        },
+    };
+};
+
+// Rebuilds the history tree from a stored session. Nodes whose image is
+// missing are dropped along with their descendants.
+export const restoreHistory = (session: EditorSession, images: EditorSessionImage[]): EditHistory => {
+    const imagesById = new Map(images.map(image => [image.id, image]));
+    const nodes: Record<string, HistoryNode> = {};
+    const visit = (id: string) => {
+        const node = session.nodes[id];
+        const stored = imagesById.get(id);
+        if (!node || !stored) return;
+        nodes[id] = { ...node, thumbnail: stored.thumbnail };
+        Object.values(session.nodes).filter(child => child.parentId === id).forEach(child => visit(child.id));
+    };
+    visit(session.rootId);
+    if (!nodes[session.rootId]) return EMPTY_HISTORY;
+
+    return {
+        nodes,
+        rootId: session.rootId,
+        currentId: nodes[session.currentId] ? session.currentId : session.rootId,
+        redoTargets: Object.fromEntries(Object.entries(session.redoTargets).filter(([parentId, childId]) => nodes[parentId] && nodes[childId])),
+    };
+};
+
+// The stored layer stack, without layers whose image is missing.
+export const restoreLayers = (session: EditorSession, images: EditorSessionImage[]): Layer[] => {
+    if (!session.layers) return createLayerStack();
+    const imageIds = new Set(images.map(image => image.id));
+    return session.layers.filter(layer => !isImageLayer(layer) || imageIds.has(layer.imageId));
+};
+
+export const createSessionId = () => `session_${Date.now()}`;
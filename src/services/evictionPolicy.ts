@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission } from '../App';
+import type { AppSettings } from './settings';
+
+// Limits on stored mission results. An undefined limit means "no limit".
+export interface EvictionPolicy {
+    maxTotalBytes?: number;
+    maxAgeMs?: number;
+}
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getEvictionPolicy = (settings: AppSettings): EvictionPolicy => ({
+    maxTotalBytes: settings.maxStorageMB ? settings.maxStorageMB * MB : undefined,
+    maxAgeMs: settings.maxResultAgeDays ? settings.maxResultAgeDays * DAY_MS : undefined,
+});
+
+// Returns the ids of the results to evict. Only completed, unpinned missions
+// are candidates; anything past the max age goes first, then the oldest
+// remaining results until the total fits within the size limit.
+export const selectResultsToEvict = (
+    missions: Mission[],
+    sizes: Record<string, number>,
+    policy: EvictionPolicy,
+    now = Date.now()
+): string[] => {
+    const candidates = missions
+        .filter(m => m.status === 'completed' && m.result && !m.pinned)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    const evicted = new Set<string>();
+    if (policy.maxAgeMs !== undefined) {
+        const maxAgeMs = policy.maxAgeMs;
+        candidates.filter(m => now - m.createdAt > maxAgeMs).forEach(m => evicted.add(m.id));
+    }
+
+    if (policy.maxTotalBytes !== undefined) {
+        let total = Object.entries(sizes)
+            .filter(([id]) => !evicted.has(id))
+            .reduce((sum, [, size]) => sum + size, 0);
+        for (const mission of candidates) {
+            if (total <= policy.maxTotalBytes) break;
+            if (evicted.has(mission.id)) continue;
+            evicted.add(mission.id);
+            total -= sizes[mission.id] ?? 0;
+        }
+    }
+
+    return [...evicted];
+};
@@ -3,36 +3,48 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Modality, PersonGeneration, Type } from "@google/genai";
+import type { AIProvider, VideoOperation } from './aiProvider';
+import type { CropSuggestion } from '../App';
+import { throwIfAborted } from './abort';
+import { AIServiceError, FinishReasonError, SafetyBlockError, TextInsteadOfImageError, classifyError } from './aiErrors';
+import { getApiKey } from './settings';
+import { blobToBase64 } from './imageCodec';
+import type { ImageGenerationParams, VideoGenerationParams } from './generationParams';
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+const MODELS = {
+    imageEdit: 'gemini-2.5-flash-image-preview',
+    imageGeneration: 'imagen-4.0-generate-001',
+    videoGeneration: 'veo-2.0-generate-001',
+    text: 'gemini-2.5-flash',
+};
+
+let client: GoogleGenAI | null = null;
+let clientApiKey = '';
+// Reuses one client, recreating it if the key was changed in Settings.
+const getClient = (): GoogleGenAI => {
+    const apiKey = getApiKey();
+    if (!client || clientApiKey !== apiKey) {
+        client = new GoogleGenAI({ apiKey });
+        clientApiKey = apiKey;
+    }
+    return client;
 };
 
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => ({
+    inlineData: { mimeType: file.type || 'application/octet-stream', data: await blobToBase64(file) },
+});
+
 const handleApiResponse = (
     response: GenerateContentResponse,
     context: string // e.g., "edit", "filter", "adjustment"
 ): string => {
     if (response.promptFeedback?.blockReason) {
         const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        const error = new SafetyBlockError(blockReason, blockReasonMessage);
+        console.error(error.message, { response });
+        throw error;
     }
 
     const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
@@ -44,35 +56,34 @@ const handleApiResponse = (
 
     const finishReason = response.candidates?.[0]?.finishReason;
     if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        const error = new FinishReasonError(finishReason, context);
+        console.error(error.message, { response });
+        throw error;
     }
     
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
-
+    const textFeedback = response.text?.trim() ?? '';
     console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+    throw new TextInsteadOfImageError(textFeedback, context);
 };
 
 const callImageGenerationAPI = async (
     originalImage: File,
     prompt: string,
-    context: string
+    context: string,
+    additionalImages: File[] = [],
+    signal?: AbortSignal
 ): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    const originalImagePart = await fileToPart(originalImage);
+    const ai = getClient();
+    const imageParts = await Promise.all([originalImage, ...additionalImages].map(fileToPart));
+    throwIfAborted(signal);
     const textPart = { text: prompt };
 
     const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
+        model: MODELS.imageEdit,
+        contents: { parts: [...imageParts, textPart] },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal: signal,
         },
     });
     return handleApiResponse(response, context);
@@ -81,83 +92,111 @@ const callImageGenerationAPI = async (
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
+    mask: File,
+    signal?: AbortSignal
 ): Promise<string> => {
-    const prompt = `You are an expert photo editor AI. Perform a natural, localized edit on the image based on the user's request.
+    const prompt = `You are an expert photo editor AI. Perform a natural, localized edit on the first image based on the user's request.
 User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
-The rest of the image must remain identical. Blend the edit seamlessly.
+Edit Region: The second image is a black and white mask with the same dimensions as the photo. Change ONLY the pixels where the mask is white.
+Everything where the mask is black must remain identical. Blend the edit seamlessly into its surroundings.
 Return ONLY the final edited image. Do not return text.`;
-    return callImageGenerationAPI(originalImage, prompt, 'edit');
+    return callImageGenerationAPI(originalImage, prompt, 'edit', [mask], signal);
 };
 
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
+    signal?: AbortSignal
 ): Promise<string> => {
     const prompt = `You are an expert photo editor AI. Apply a stylistic filter to the entire image. Do not change composition.
 Filter Request: "${filterPrompt}"
 Return ONLY the final filtered image. Do not return text.`;
-    return callImageGenerationAPI(originalImage, prompt, 'filter');
+    return callImageGenerationAPI(originalImage, prompt, 'filter', [], signal);
 };
 
 export const removeBackgroundImage = async (
-    originalImage: File
+    originalImage: File,
+    signal?: AbortSignal
 ): Promise<string> => {
     const prompt = `You are an expert photo editor AI. Your task is to accurately isolate the main subject from the background. Make the background fully transparent.
 Return ONLY the final image with the transparent background. Do not return text.`;
-    return callImageGenerationAPI(originalImage, prompt, 'background removal');
+    return callImageGenerationAPI(originalImage, prompt, 'background removal', [], signal);
 }
 
 export const upscaleImage = async (
-    originalImage: File
+    originalImage: File,
+    signal?: AbortSignal
 ): Promise<string> => {
     const prompt = `You are an expert photo editor AI. Upscale this image to a higher resolution, enhancing details and sharpness without adding unnatural artifacts. Maintain the original art style.
 Return ONLY the final upscaled image. Do not return text.`;
-    return callImageGenerationAPI(originalImage, prompt, 'upscaling');
+    return callImageGenerationAPI(originalImage, prompt, 'upscaling', [], signal);
 }
 
 export const balanceImageColors = async (
     originalImage: File,
-    colorPrompt: string
+    colorPrompt: string,
+    signal?: AbortSignal
 ): Promise<string> => {
     const prompt = `You are an expert photo editor AI. Perform a natural, global color adjustment to the entire image based on the user's request.
 User Request: "${colorPrompt}"
 Return ONLY the final color-adjusted image. Do not return text.`;
-    return callImageGenerationAPI(originalImage, prompt, 'color balance');
+    return callImageGenerationAPI(originalImage, prompt, 'color balance', [], signal);
 }
 
 export const generateImageFromPrompt = async (
-    prompt: string
+    prompt: string,
+    params: ImageGenerationParams,
+    signal?: AbortSignal
 ): Promise<string[]> => {
-    console.log(`Starting image generation for prompt: ${prompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    console.log(`Starting image generation for prompt: ${prompt}`, params);
+    const ai = getClient();
 
     const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+        model: MODELS.imageGeneration,
         prompt,
         config: {
-          numberOfImages: 4,
-          outputMimeType: 'image/png',
-          aspectRatio: '1:1',
+          numberOfImages: params.numberOfImages,
+          outputMimeType: params.outputMimeType,
+          aspectRatio: params.aspectRatio,
+          negativePrompt: params.negativePrompt || undefined,
+          personGeneration: params.personGeneration as PersonGeneration,
+          abortSignal: signal,
         },
     });
     console.log('Received response from Imagen model.', response);
     
-    return response.generatedImages.map(img => img.image.imageBytes);
+    const images = (response.generatedImages ?? [])
+        .map(img => img.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes);
+    if (images.length === 0) {
+        // Imagen silently drops images that fail its filters.
+        throw new SafetyBlockError('FILTERED', "No images were returned; try rephrasing your prompt.");
+    }
+    return images;
 };
 
 export const generateVideoFromPrompt = async (
-    prompt: string
-): Promise<any> => {
-    console.log(`Starting video generation for prompt: ${prompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    prompt: string,
+    params: VideoGenerationParams,
+    referenceImage?: File,
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    console.log(`Starting video generation for prompt: ${prompt}${referenceImage ? ' (with reference image)' : ''}`, params);
+    const ai = getClient();
+    // The reference image becomes the starting frame of the video.
+    const image = referenceImage ? (await fileToPart(referenceImage)).inlineData : undefined;
+    throwIfAborted(signal);
     
     const operation = await ai.models.generateVideos({
-      model: 'veo-2.0-generate-001',
+      model: MODELS.videoGeneration,
       prompt: prompt,
+      image: image && { imageBytes: image.data, mimeType: image.mimeType },
       config: {
-        numberOfVideos: 1
+        numberOfVideos: params.numberOfVideos,
+        aspectRatio: params.aspectRatio,
+        durationSeconds: params.durationSeconds,
+        negativePrompt: params.negativePrompt || undefined,
+        abortSignal: signal,
       }
     });
 
@@ -166,25 +205,49 @@ export const generateVideoFromPrompt = async (
 };
 
 export const checkVideoOperationStatus = async (
-    operation: any
-): Promise<any> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    return await ai.operations.getVideosOperation({ operation: operation });
+    operation: VideoOperation,
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    const ai = getClient();
+    // Operations restored from storage are plain objects; the SDK needs the class instance.
+    const sdkOperation = Object.assign(new GenerateVideosOperation(), operation);
+    return await ai.operations.getVideosOperation({ operation: sdkOperation, config: { abortSignal: signal } });
+};
+
+export const downloadVideos = async (
+    operation: VideoOperation,
+    signal?: AbortSignal
+): Promise<Blob[]> => {
+    const downloadLinks = (operation.response?.generatedVideos ?? [])
+        .map(generated => generated.video?.uri)
+        .filter((uri): uri is string => !!uri);
+    if (downloadLinks.length === 0) {
+        throw new AIServiceError("Video generation finished, but no URL was returned.");
+    }
+    return Promise.all(downloadLinks.map(async (downloadLink) => {
+        const response = await fetch(`${downloadLink}&key=${getApiKey()}`, { signal });
+        if (!response.ok) {
+            throw classifyError(Object.assign(new Error(`Video download failed with status ${response.status}.`), { status: response.status }));
+        }
+        return await response.blob();
+    }));
 };
 
 export const enhancePrompt = async (
-    idea: string
+    idea: string,
+    signal?: AbortSignal
 ): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const ai = getClient();
     const systemInstruction = `You are an expert AI prompt engineer for a text-to-image model. Your task is to take a user's simple idea and rewrite it into a rich, detailed, and visually descriptive prompt. 
 Focus on adding details about the subject, environment, lighting, and artistic style. 
 The output must be a single, concise paragraph. Respond with ONLY the new prompt and nothing else.`;
     
     const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
+        model: MODELS.text,
         contents: idea,
         config: {
             systemInstruction,
+            abortSignal: signal,
         },
     });
 
@@ -192,9 +255,10 @@ The output must be a single, concise paragraph. Respond with ONLY the new prompt
 };
 
 export const analyzeVideoFrame = async (
-    base64ImageData: string
+    base64ImageData: string,
+    signal?: AbortSignal
 ): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const ai = getClient();
     const imagePart = {
         inlineData: {
             mimeType: 'image/jpeg',
@@ -206,23 +270,28 @@ export const analyzeVideoFrame = async (
     };
 
     const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model: MODELS.text,
         contents: { parts: [imagePart, textPart] },
+        config: {
+            abortSignal: signal,
+        },
     });
     
     return response.text.trim();
 };
 
-export const getAICropSuggestions = async (image: File) => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+export const getAICropSuggestions = async (image: File, signal?: AbortSignal): Promise<CropSuggestion[]> => {
+    const ai = getClient();
     const imagePart = await fileToPart(image);
+    throwIfAborted(signal);
     const textPart = { text: `Analyze this image and suggest three compelling crop compositions. For each suggestion, provide a short, descriptive name (e.g., 'Dramatic Close-up') and the crop area as percentages (x, y, width, height) relative to the image dimensions. The 'y' value should be from the top of the image.` };
     
     const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
+        model: MODELS.text,
         contents: { parts: [imagePart, textPart] },
         config: {
             responseMimeType: "application/json",
+            abortSignal: signal,
             responseSchema: {
                 type: Type.ARRAY,
                 items: {
@@ -251,6 +320,22 @@ export const getAICropSuggestions = async (image: File) => {
         return JSON.parse(jsonText);
     } catch (e) {
         console.error("Failed to parse JSON from Gemini for crop suggestions:", response.text);
-        throw new Error("The AI returned an invalid format for crop suggestions.");
+        throw new AIServiceError("The AI returned an invalid format for crop suggestions.", { cause: e });
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AIProvider = {
+    name: 'gemini',
+    generateEditedImage,
+    generateFilteredImage,
+    removeBackgroundImage,
+    upscaleImage,
+    balanceImageColors,
+    generateImageFromPrompt,
+    generateVideoFromPrompt,
+    checkVideoOperationStatus,
+    downloadVideos,
+    enhancePrompt,
+    analyzeVideoFrame,
+    getAICropSuggestions,
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Parameters a text-to-image mission was generated with. They are stored on
+// the mission so Regenerate and Edit reproduce the same request.
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+export type ImageMimeType = 'image/png' | 'image/jpeg';
+export type PersonGenerationPolicy = 'DONT_ALLOW' | 'ALLOW_ADULT' | 'ALLOW_ALL';
+
+export interface ImageGenerationParams {
+    numberOfImages: number;
+    aspectRatio: ImageAspectRatio;
+    outputMimeType: ImageMimeType;
+    negativePrompt?: string;
+    personGeneration: PersonGenerationPolicy;
+}
+
+export const DEFAULT_IMAGE_PARAMS: ImageGenerationParams = {
+    numberOfImages: 4,
+    aspectRatio: '1:1',
+    outputMimeType: 'image/png',
+    personGeneration: 'ALLOW_ADULT',
+};
+
+export const IMAGE_COUNTS = [1, 2, 3, 4];
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const IMAGE_MIME_TYPES: { value: ImageMimeType, label: string }[] = [
+    { value: 'image/png', label: 'PNG' },
+    { value: 'image/jpeg', label: 'JPEG' },
+];
+export const PERSON_GENERATION_POLICIES: { value: PersonGenerationPolicy, label: string }[] = [
+    { value: 'DONT_ALLOW', label: 'No people' },
+    { value: 'ALLOW_ADULT', label: 'Adults only' },
+    { value: 'ALLOW_ALL', label: 'Anyone' },
+];
+
+// Missions created before parameters were stored used the old fixed request.
+export const getImageParams = (params?: ImageGenerationParams): ImageGenerationParams => params ?? DEFAULT_IMAGE_PARAMS;
+
+// A short human-readable summary, e.g. "4 images · 16:9 · JPEG · Adults only".
+export const describeImageParams = (params: ImageGenerationParams): string => [
+    `${params.numberOfImages} image${params.numberOfImages === 1 ? '' : 's'}`,
+    params.aspectRatio,
+    IMAGE_MIME_TYPES.find(t => t.value === params.outputMimeType)?.label ?? params.outputMimeType,
+    PERSON_GENERATION_POLICIES.find(p => p.value === params.personGeneration)?.label ?? params.personGeneration,
+].join(' · ');
+
+// Parameters for text/image-to-video missions, stored on the mission like the
+// image parameters above.
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export interface VideoGenerationParams {
+    aspectRatio: VideoAspectRatio;
+    durationSeconds: number;
+    numberOfVideos: number;
+    negativePrompt?: string;
+}
+
+export const DEFAULT_VIDEO_PARAMS: VideoGenerationParams = {
+    aspectRatio: '16:9',
+    durationSeconds: 8,
+    numberOfVideos: 1,
+};
+
+export const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
+export const VIDEO_DURATIONS = [5, 6, 7, 8];
+export const VIDEO_COUNTS = [1, 2];
+
+export const getVideoParams = (params?: VideoGenerationParams): VideoGenerationParams => params ?? DEFAULT_VIDEO_PARAMS;
+
+// e.g. "2 videos · 16:9 · 8s"
+export const describeVideoParams = (params: VideoGenerationParams): string => [
+    `${params.numberOfVideos} video${params.numberOfVideos === 1 ? '' : 's'}`,
+    params.aspectRatio,
+    `${params.durationSeconds}s`,
+].join(' · ');
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getEditorImage, saveEditorImage, StorageError } from './storage';
+
+// Full-resolution images for the editor history. Each one is written to
+// IndexedDB as soon as its edit is made, and only the few used most recently
+// stay in memory; the history panel gets by with thumbnails. Going back to an
+// older edit reads its image back in. Layer images (see layers.ts) are kept
+// here too, under their image id.
+const MEMORY_WINDOW = 4;
+
+// In order of use, least recent first.
+const cache = new Map<string, File>();
+const pendingWrites = new Map<string, Promise<void>>();
+
+const remember = (id: string, image: File) => {
+    cache.delete(id);
+    cache.set(id, image);
+    for (const oldest of cache.keys()) {
+        if (cache.size <= MEMORY_WINDOW) break;
+        cache.delete(oldest);
+    }
+};
+
+export const addHistoryImage = (sessionId: string, id: string, image: File): Promise<void> => {
+    remember(id, image);
+    const writing = saveEditorImage(sessionId, id, image).finally(() => pendingWrites.delete(id));
+    pendingWrites.set(id, writing);
+    return writing;
+};
+
+export const getHistoryImage = async (id: string): Promise<File> => {
+    const cached = cache.get(id);
+    if (cached) {
+        remember(id, cached);
+        return cached;
+    }
+    // An image can leave the window before its write has finished.
+    await pendingWrites.get(id);
+    const image = await getEditorImage(id);
+    if (!image) throw new StorageError("The image for this edit is no longer stored.");
+    remember(id, image);
+    return image;
+};
+
+// Drops the in-memory images when the editor closes or switches session.
+export const clearHistoryImages = () => cache.clear();
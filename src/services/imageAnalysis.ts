@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Numbers for judging an edit: histograms, clipped pixels and single pixel
+// values. Histograms and clipping run on a downscaled copy of the image (see
+// ANALYSIS_MAX_EDGE), which keeps them fast enough to redo on every undo
+// step; single pixels are read from the full-resolution image.
+
+// Large enough that the histogram's shape matches the original's.
+export const ANALYSIS_MAX_EDGE = 2048;
+
+export interface Histogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luminance: Uint32Array;
+    // Share of pixels with a channel at 255, or at 0, from 0 to 1.
+    highlightsClipped: number;
+    shadowsClipped: number;
+}
+
+export interface PixelSample {
+    red: number;
+    green: number;
+    blue: number;
+}
+
+const luminanceOf = (r: number, g: number, b: number) => Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+
+export const computeHistogram = ({ data }: ImageData): Histogram => {
+    const red = new Uint32Array(256);
+    const green = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const luminance = new Uint32Array(256);
+    let highlights = 0;
+    let shadows = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        red[r]++;
+        green[g]++;
+        blue[b]++;
+        luminance[luminanceOf(r, g, b)]++;
+        if (r === 255 || g === 255 || b === 255) highlights++;
+        if (r === 0 || g === 0 || b === 0) shadows++;
+    }
+    const pixelCount = Math.max(1, data.length / 4);
+    return { red, green, blue, luminance, highlightsClipped: highlights / pixelCount, shadowsClipped: shadows / pixelCount };
+};
+
+// Marks clipped highlights in red and clipped shadows in blue; everything
+// else is transparent, so it can be laid over the image.
+export const createClippingOverlay = ({ data, width, height }: ImageData): ImageData => {
+    const overlay = new ImageData(width, height);
+    const out = overlay.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        if (r === 255 || g === 255 || b === 255) {
+            out[i] = 255; out[i + 1] = 0; out[i + 2] = 64; out[i + 3] = 200;
+        } else if (r === 0 || g === 0 || b === 0) {
+            out[i] = 0; out[i + 1] = 96; out[i + 2] = 255; out[i + 3] = 200;
+        }
+    }
+    return overlay;
+};
+
+let sampleCanvas: HTMLCanvasElement | null = null;
+
+// The exact pixel under `point`, which is relative to the image, from 0 to 1
+// on each axis. Only that pixel is copied out of the image.
+export const samplePixel = (image: ImageBitmap, point: { x: number, y: number }): PixelSample => {
+    const x = Math.min(image.width - 1, Math.max(0, Math.floor(point.x * image.width)));
+    const y = Math.min(image.height - 1, Math.max(0, Math.floor(point.y * image.height)));
+    if (!sampleCanvas) {
+        sampleCanvas = document.createElement('canvas');
+        sampleCanvas.width = 1;
+        sampleCanvas.height = 1;
+    }
+    const ctx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+    const [red, green, blue] = ctx.getImageData(0, 0, 1, 1).data;
+    return { red, green, blue };
+};
+
+export const toHex = ({ red, green, blue }: PixelSample): string =>
+    '#' + [red, green, blue].map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Where a pointer is over an object-contain image, from 0 to 1 on each axis,
+// or null over the letterboxing.
+export const getRelativeImagePoint = (image: HTMLImageElement, clientX: number, clientY: number): { x: number, y: number } | null => {
+    const rect = image.getBoundingClientRect();
+    if (!image.naturalWidth || !image.naturalHeight) return null;
+    const scale = Math.min(rect.width / image.naturalWidth, rect.height / image.naturalHeight);
+    const offsetX = (rect.width - image.naturalWidth * scale) / 2;
+    const offsetY = (rect.height - image.naturalHeight * scale) / 2;
+    const x = (clientX - rect.left - offsetX) / (image.naturalWidth * scale);
+    const y = (clientY - rect.top - offsetY) / (image.naturalHeight * scale);
+    return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ResamplingMethod } from './resample';
+
+// Converts between base64 and binary image data in a worker. Results come
+// back from the API as base64 and are stored as Blobs, and decoding a large
+// photo byte by byte on the main thread makes the editor stutter. Resizing
+// runs here too, for the same reason.
+
+type CodecTask =
+    | { type: 'decode', base64: string, mimeType: string }
+    | { type: 'encode', blob: Blob }
+    | { type: 'resample', source: ImageData, width: number, height: number, method: ResamplingMethod };
+
+export type CodecRequest = CodecTask & { id: number };
+
+export type CodecResponse =
+    | { id: number, blob: Blob }
+    | { id: number, base64: string }
+    | { id: number, image: ImageData }
+    | { id: number, error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (response: CodecResponse) => void, reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./imageCodec.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CodecResponse>) => {
+        const request = pending.get(event.data.id);
+        pending.delete(event.data.id);
+        request?.resolve(event.data);
+    };
+    // A worker that fails to load fails everything waiting on it; the next
+    // call starts a fresh one.
+    worker.onerror = (event) => {
+        const error = new Error(event.message || "The image conversion worker failed.");
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+const run = (task: CodecTask, transfer: Transferable[] = []): Promise<CodecResponse> => new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...task, id }, transfer);
+});
+
+export const base64ToBlob = async (base64: string, mimeType: string): Promise<Blob> => {
+    const response = await run({ type: 'decode', base64, mimeType });
+    if ('error' in response) throw new Error(`Failed to decode image data: ${response.error}`);
+    if (!('blob' in response)) throw new Error("Unexpected response from the image conversion worker.");
+    return response.blob;
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const response = await run({ type: 'encode', blob });
+    if ('error' in response) throw new Error(`Failed to encode image data: ${response.error}`);
+    if (!('base64' in response)) throw new Error("Unexpected response from the image conversion worker.");
+    return response.base64;
+};
+
+// The source's pixels are handed to the worker, so `source` is unusable
+// afterwards.
+export const resampleInWorker = async (source: ImageData, width: number, height: number, method: ResamplingMethod): Promise<ImageData> => {
+    const response = await run({ type: 'resample', source, width, height, method }, [source.data.buffer]);
+    if ('error' in response) throw new Error(`Failed to resize the image: ${response.error}`);
+    if (!('image' in response)) throw new Error("Unexpected response from the image conversion worker.");
+    return response.image;
+};
+
+export const dataURLtoFile = async (dataUrl: string, filename: string): Promise<File> => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    const blob = await base64ToBlob(arr[1], mimeMatch[1]);
+    return new File([blob], filename, { type: blob.type });
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CodecRequest, CodecResponse } from './imageCodec';
+import { resampleImageData } from './resample';
+
+// Runs the base64 <-> binary conversions and resizes for imageCodec.ts, so
+// decoding or resizing a large image doesn't stall the main thread.
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    // String.fromCharCode takes its arguments on the stack, so go in chunks.
+    const chunkSize = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+self.onmessage = async (event: MessageEvent<CodecRequest>) => {
+    const request = event.data;
+    let response: CodecResponse;
+    try {
+        if (request.type === 'decode') {
+            response = { id: request.id, blob: base64ToBlob(request.base64, request.mimeType) };
+        } else if (request.type === 'encode') {
+            response = { id: request.id, base64: await blobToBase64(request.blob) };
+        } else {
+            response = { id: request.id, image: resampleImageData(request.source, request.width, request.height, request.method) };
+        }
+    } catch (error) {
+        response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response, { transfer: 'image' in response ? [response.image.data.buffer] : [] });
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Encoding the editor image for download: format, quality, size limit and
+// file name. The last settings used are kept in localStorage.
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportSettings {
+    format: ExportFormat;
+    quality: number; // 1-100, for JPEG and WebP
+    maxEdge: number | null; // Longest side in pixels; null keeps the full size
+    background: string; // Fill behind transparent pixels in a JPEG
+    filenameTemplate: string;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat, label: string, extension: string }[] = [
+    { format: 'image/png', label: 'PNG', extension: 'png' },
+    { format: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+    { format: 'image/webp', label: 'WebP', extension: 'webp' },
+];
+
+export const FILENAME_TOKENS: { token: string, description: string }[] = [
+    { token: '{name}', description: 'Original file name' },
+    { token: '{operation}', description: 'Last edit' },
+    { token: '{date}', description: 'YYYY-MM-DD' },
+    { token: '{time}', description: 'HH-MM-SS' },
+    { token: '{width}', description: 'Width in pixels' },
+    { token: '{height}', description: 'Height in pixels' },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'image/png',
+    quality: 90,
+    maxEdge: null,
+    background: '#ffffff',
+    filenameTemplate: 'peter-pixx-{name}-{date}',
+};
+
+const EXPORT_SETTINGS_STORAGE_KEY = 'peter-pixx-export';
+
+export const getExportSettingsFromStorage = (): ExportSettings => {
+    try {
+        const stored = localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY);
+        return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS;
+    } catch (error) {
+        console.error("Failed to parse export settings from localStorage", error);
+        return DEFAULT_EXPORT_SETTINGS;
+    }
+};
+
+export const saveExportSettingsToStorage = (settings: ExportSettings) => {
+    try {
+        localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save export settings to localStorage", error);
+    }
+};
+
+export interface ExportedImage {
+    blob: Blob;
+    width: number;
+    height: number;
+}
+
+export const exportImage = async (image: Blob, settings: ExportSettings): Promise<ExportedImage> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = settings.maxEdge ? Math.min(1, settings.maxEdge / Math.max(bitmap.width, bitmap.height)) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the export.");
+    // JPEG has no alpha; without a fill, transparent areas come out black.
+    if (settings.format === 'image/jpeg') {
+        ctx.fillStyle = settings.background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            result => result ? resolve(result) : reject(new Error("Failed to encode the exported image.")),
+            settings.format,
+            settings.format === 'image/png' ? undefined : settings.quality / 100
+        );
+    });
+    // Browsers fall back to PNG for formats they can't encode.
+    if (blob.type !== settings.format) {
+        throw new Error(`This browser can't export ${EXPORT_FORMATS.find(f => f.format === settings.format)?.label ?? settings.format} images.`);
+    }
+    return { blob, width: canvas.width, height: canvas.height };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Fills in the template's tokens and adds the extension for the format.
+export const formatExportFilename = (
+    settings: ExportSettings,
+    values: { name: string, operation: string, width: number, height: number, date?: Date }
+): string => {
+    const date = values.date ?? new Date();
+    const tokens: Record<string, string> = {
+        '{name}': values.name.replace(/\.[^.]+$/, ''),
+        '{operation}': values.operation,
+        '{date}': `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        '{time}': `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+        '{width}': String(values.width),
+        '{height}': String(values.height),
+    };
+    const name = settings.filenameTemplate
+        .replace(/\{[a-z]+\}/g, token => tokens[token] ?? token)
+        .replace(/[\\/:*?"<>|]+/g, '-')
+        .trim();
+    const extension = EXPORT_FORMATS.find(f => f.format === settings.format)?.extension ?? 'png';
+    return `${name || 'peter-pixx-edit'}.${extension}`;
+};
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Geometric edits from the Crop tab. Each one is rendered in full as a new
+// image, so it lands in the history as a single step.
+
+export type ImageTransform =
+    | { type: 'rotate', quarterTurns: 1 | -1 } // Clockwise when positive
+    | { type: 'flip', axis: 'horizontal' | 'vertical' }
+    | { type: 'straighten', degrees: number };
+
+export const MAX_STRAIGHTEN_DEGREES = 45;
+
+export const describeTransform = (transform: ImageTransform): string => {
+    switch (transform.type) {
+        case 'rotate': return transform.quarterTurns > 0 ? 'Rotate 90° right' : 'Rotate 90° left';
+        case 'flip': return transform.axis === 'horizontal' ? 'Flip horizontal' : 'Flip vertical';
+        case 'straighten': return `Straighten ${transform.degrees > 0 ? '+' : ''}${transform.degrees}°`;
+    }
+};
+
+// How much a straightened image is scaled down so that a crop with the same
+// aspect ratio fits inside it without the empty corners. A centred rectangle
+// fits inside the rotated image exactly when its own rotated bounding box
+// fits inside the original one.
+export const getStraightenScale = (width: number, height: number, degrees: number): number => {
+    const radians = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+const getTransformedSize = (width: number, height: number, transform: ImageTransform): { width: number, height: number } => {
+    if (transform.type === 'rotate') return { width: height, height: width };
+    if (transform.type === 'straighten') {
+        const scale = getStraightenScale(width, height, transform.degrees);
+        return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    }
+    return { width, height };
+};
+
+export const transformImage = async (image: Blob, transform: ImageTransform): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const { width, height } = bitmap;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the transform.");
+
+    const size = getTransformedSize(width, height, transform);
+    canvas.width = size.width;
+    canvas.height = size.height;
+
+    // Every transform is drawn about the centre of the output.
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    if (transform.type === 'rotate') {
+        ctx.rotate(transform.quarterTurns * Math.PI / 2);
+    } else if (transform.type === 'flip') {
+        ctx.scale(transform.axis === 'horizontal' ? -1 : 1, transform.axis === 'vertical' ? -1 : 1);
+    } else {
+        ctx.rotate(transform.degrees * Math.PI / 180);
+        ctx.imageSmoothingQuality = 'high';
+    }
+    ctx.drawImage(bitmap, -width / 2, -height / 2);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the transformed image.")), 'image/png');
+    });
+};
+
+// A rectangle in the image's own pixels.
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Turns a selection given in percent of the image into whole image pixels,
+// kept inside the image.
+export const percentToPixelRect = (crop: PixelRect, imageWidth: number, imageHeight: number): PixelRect => {
+    const x = Math.min(imageWidth - 1, Math.max(0, Math.round(crop.x / 100 * imageWidth)));
+    const y = Math.min(imageHeight - 1, Math.max(0, Math.round(crop.y / 100 * imageHeight)));
+    return {
+        x,
+        y,
+        width: Math.min(imageWidth - x, Math.max(1, Math.round(crop.width / 100 * imageWidth))),
+        height: Math.min(imageHeight - y, Math.max(1, Math.round(crop.height / 100 * imageHeight))),
+    };
+};
+
+// Copies the rectangle out pixel for pixel; the output is exactly
+// `rect.width` x `rect.height` whatever the screen's pixel density.
+export const cropImage = async (image: Blob, rect: PixelRect): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the crop.");
+    ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    bitmap.close();
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the cropped image.")), 'image/png');
+    });
+};
+
+// Where an edit moves each point of the image, so what is placed over the
+// image (the layers) can follow it. Angles are in degrees, clockwise.
+export interface ImageMapping {
+    mapPoint: (x: number, y: number) => { x: number, y: number };
+    mapRotation: (degrees: number) => number;
+    // How much larger everything becomes.
+    scale: number;
+}
+
+// Mirrors what transformImage() draws: about the centre of the image, into
+// the centre of the output.
+export const getTransformMapping = (width: number, height: number, transform: ImageTransform): ImageMapping => {
+    const output = getTransformedSize(width, height, transform);
+    const about = (map: (dx: number, dy: number) => { x: number, y: number }) => (x: number, y: number) => {
+        const mapped = map(x - width / 2, y - height / 2);
+        return { x: mapped.x + output.width / 2, y: mapped.y + output.height / 2 };
+    };
+    if (transform.type === 'flip') {
+        const horizontal = transform.axis === 'horizontal';
+        return {
+            mapPoint: about((dx, dy) => horizontal ? { x: -dx, y: dy } : { x: dx, y: -dy }),
+            mapRotation: (degrees) => -degrees,
+            scale: 1,
+        };
+    }
+    const degrees = transform.type === 'rotate' ? transform.quarterTurns * 90 : transform.degrees;
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return {
+        mapPoint: about((dx, dy) => ({ x: dx * cos - dy * sin, y: dx * sin + dy * cos })),
+        mapRotation: (rotation) => rotation + degrees,
+        scale: 1,
+    };
+};
+
+export const getCropMapping = (rect: PixelRect): ImageMapping => ({
+    mapPoint: (x, y) => ({ x: x - rect.x, y: y - rect.y }),
+    mapRotation: (degrees) => degrees,
+    scale: 1,
+});
+
+// A resize that changes the aspect ratio stretches the image, which a layer
+// can't follow; it keeps its proportions and grows by the average factor.
+export const getResizeMapping = (from: { width: number, height: number }, to: { width: number, height: number }): ImageMapping => {
+    const scaleX = to.width / from.width;
+    const scaleY = to.height / from.height;
+    return {
+        mapPoint: (x, y) => ({ x: x * scaleX, y: y * scaleY }),
+        mapRotation: (degrees) => degrees,
+        scale: Math.sqrt(scaleX * scaleY),
+    };
+};
@@ -0,0 +1,438 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The editor's layer stack. The photo layer is the edit history's current
+// image and fills the document. Image layers are placed over it, with their
+// pixels kept in historyImages.ts under their `imageId`; text layers are
+// drawn from their text and style each time. Layers stay separate until the
+// stack is flattened, which draws them with the same code the editor canvas
+// uses.
+
+import type { ImageMapping } from './imageTransforms';
+
+// These names work both as CSS mix-blend-mode values and, apart from
+// 'normal', as canvas globalCompositeOperation values.
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn'
+    | 'hard-light' | 'soft-light' | 'difference' | 'exclusion' | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+export const BLEND_MODES: { mode: BlendMode, label: string }[] = [
+    { mode: 'normal', label: 'Normal' },
+    { mode: 'multiply', label: 'Multiply' },
+    { mode: 'screen', label: 'Screen' },
+    { mode: 'overlay', label: 'Overlay' },
+    { mode: 'darken', label: 'Darken' },
+    { mode: 'lighten', label: 'Lighten' },
+    { mode: 'color-dodge', label: 'Color dodge' },
+    { mode: 'color-burn', label: 'Color burn' },
+    { mode: 'hard-light', label: 'Hard light' },
+    { mode: 'soft-light', label: 'Soft light' },
+    { mode: 'difference', label: 'Difference' },
+    { mode: 'exclusion', label: 'Exclusion' },
+    { mode: 'hue', label: 'Hue' },
+    { mode: 'saturation', label: 'Saturation' },
+    { mode: 'color', label: 'Color' },
+    { mode: 'luminosity', label: 'Luminosity' },
+];
+
+interface LayerProperties {
+    id: string;
+    name: string;
+    visible: boolean;
+    opacity: number; // 0-1
+    blendMode: BlendMode;
+}
+
+export interface PhotoLayer extends LayerProperties {
+    kind: 'photo';
+}
+
+// Where a layer sits over the photo: its center in document pixels, and its
+// rotation about that center in degrees.
+interface Placement {
+    x: number;
+    y: number;
+    rotation: number;
+}
+
+export interface ImageLayer extends LayerProperties, Placement {
+    kind: 'ai-edit' | 'imported' | 'sticker';
+    imageId: string;
+    // The image's own size in pixels; `scale` sizes it in the document.
+    width: number;
+    height: number;
+    scale: number;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Sizes are in document pixels.
+export interface TextStyle {
+    fontFamily: string; // A CSS font-family list
+    fontSize: number;
+    fontWeight: number;
+    color: string;
+    align: TextAlign;
+    strokeColor: string;
+    strokeWidth: number; // 0 for no outline
+    shadowColor: string;
+    shadowBlur: number;
+    shadowDistance: number; // Offset down and to the right; no shadow when this and the blur are 0
+}
+
+export interface TextLayer extends LayerProperties, Placement {
+    kind: 'text';
+    text: string;
+    style: TextStyle;
+}
+
+// Every layer other than the photo.
+export type PlacedLayer = ImageLayer | TextLayer;
+
+export type Layer = PhotoLayer | PlacedLayer;
+
+export type LayerTransform = Placement & Pick<ImageLayer, 'scale'>;
+
+export const PHOTO_LAYER_ID = 'photo';
+
+export const MIN_LAYER_SCALE = 0.02;
+export const MAX_LAYER_SCALE = 8;
+
+// A stack holding only the photo, as a new edit starts.
+export const createLayerStack = (): Layer[] => [
+    { id: PHOTO_LAYER_ID, kind: 'photo', name: 'Photo', visible: true, opacity: 1, blendMode: 'normal' },
+];
+
+export const isPlacedLayer = (layer: Layer): layer is PlacedLayer => layer.kind !== 'photo';
+
+export const isImageLayer = (layer: Layer): layer is ImageLayer => layer.kind !== 'photo' && layer.kind !== 'text';
+
+// A stack with only an unchanged photo looks exactly like the photo.
+export const hasLayerEffects = (layers: Layer[]): boolean =>
+    layers.some(layer => isPlacedLayer(layer) || !layer.visible || layer.opacity < 1 || layer.blendMode !== 'normal');
+
+const createLayerId = () => `layer_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createImageLayer = (
+    kind: ImageLayer['kind'],
+    name: string,
+    imageId: string,
+    size: { width: number, height: number },
+    transform: LayerTransform
+): ImageLayer => ({
+    id: createLayerId(),
+    kind,
+    name,
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal',
+    imageId,
+    width: size.width,
+    height: size.height,
+    ...transform,
+});
+
+// Centered, and scaled down if needed to fit inside `coverage` of the
+// document's width and height.
+export const fitLayerToDocument = (size: { width: number, height: number }, documentSize: { width: number, height: number }, coverage = 1): LayerTransform => ({
+    x: documentSize.width / 2,
+    y: documentSize.height / 2,
+    rotation: 0,
+    scale: Math.min(1, documentSize.width * coverage / size.width, documentSize.height * coverage / size.height),
+});
+
+// Covers the same area as `target` (the photo when null), so an edited copy
+// of a layer, which may come back at a different resolution, lands exactly
+// on top of it.
+export const matchLayerPlacement = (
+    size: { width: number, height: number },
+    target: ImageLayer | null,
+    documentSize: { width: number, height: number }
+): LayerTransform => target
+    ? { x: target.x, y: target.y, rotation: target.rotation, scale: target.scale * target.width / size.width }
+    : { x: documentSize.width / 2, y: documentSize.height / 2, rotation: 0, scale: documentSize.width / size.width };
+
+// Only some changes mean something for each kind of layer: the photo always
+// fills the document, and only text layers have text.
+export type LayerChanges = Partial<Omit<LayerProperties, 'id'> & LayerTransform & Pick<TextLayer, 'text' | 'style'>>;
+
+export const updateLayer = (layers: Layer[], id: string, changes: LayerChanges): Layer[] =>
+    layers.map(layer => layer.id === id ? { ...layer, ...changes } as Layer : layer);
+
+// Adds `layer` directly above the layer with id `belowId`, or on top.
+export const insertLayer = (layers: Layer[], layer: Layer, belowId?: string): Layer[] => {
+    const index = layers.findIndex(existing => existing.id === belowId);
+    return index === -1 ? [...layers, layer] : [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)];
+};
+
+export const removeLayer = (layers: Layer[], id: string): Layer[] =>
+    layers.filter(layer => layer.id !== id || !isPlacedLayer(layer));
+
+// `direction` 1 moves the layer up the stack, -1 down.
+export const moveLayer = (layers: Layer[], id: string, direction: 1 | -1): Layer[] => {
+    const index = layers.findIndex(layer => layer.id === id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= layers.length) return layers;
+    const reordered = [...layers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+};
+
+// --- Text ---
+
+export const FONT_FAMILIES: { label: string, value: string }[] = [
+    { label: 'Inter', value: "'Inter', sans-serif" },
+    { label: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+    { label: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
+    { label: 'Trebuchet', value: "'Trebuchet MS', sans-serif" },
+    { label: 'Impact', value: "Impact, 'Arial Black', sans-serif" },
+    { label: 'Georgia', value: 'Georgia, serif' },
+    { label: 'Times', value: "'Times New Roman', Times, serif" },
+    { label: 'Courier', value: "'Courier New', Courier, monospace" },
+    { label: 'Comic', value: "'Comic Sans MS', 'Comic Sans', cursive" },
+];
+
+export const FONT_WEIGHTS: { label: string, value: number }[] = [
+    { label: 'Regular', value: 400 },
+    { label: 'Medium', value: 500 },
+    { label: 'Bold', value: 700 },
+    { label: 'Black', value: 900 },
+];
+
+export const MIN_FONT_SIZE = 4;
+export const MAX_FONT_SIZE = 2000;
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+    fontFamily: FONT_FAMILIES[0].value,
+    fontSize: 64,
+    fontWeight: 700,
+    color: '#ffffff',
+    align: 'center',
+    strokeColor: '#000000',
+    strokeWidth: 0,
+    shadowColor: '#000000',
+    shadowBlur: 0,
+    shadowDistance: 0,
+};
+
+// The first line, shortened, so the layer list can tell text layers apart.
+export const getTextLayerName = (text: string): string => {
+    const firstLine = text.trim().split('\n')[0].trim();
+    if (!firstLine) return 'Text';
+    return firstLine.length > 24 ? `${firstLine.slice(0, 23)}…` : firstLine;
+};
+
+export const createTextLayer = (text: string, style: TextStyle, placement: Placement): TextLayer => ({
+    id: createLayerId(),
+    kind: 'text',
+    name: getTextLayerName(text),
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal',
+    text,
+    style,
+    ...placement,
+});
+
+const LINE_HEIGHT = 1.2;
+
+const toCanvasFont = (style: TextStyle) => `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+
+let measuringContext: CanvasRenderingContext2D | null = null;
+
+// Line widths and the size of the box the text is drawn in. The box leaves
+// room around the glyphs for the outline and the shadow.
+const layoutText = ({ text, style }: TextLayer) => {
+    measuringContext ??= document.createElement('canvas').getContext('2d');
+    const lines = text.split('\n');
+    const lineHeight = style.fontSize * LINE_HEIGHT;
+    const padding = Math.ceil(style.strokeWidth / 2 + style.shadowBlur + style.shadowDistance) + 2;
+    let textWidth = 1;
+    if (measuringContext) {
+        measuringContext.font = toCanvasFont(style);
+        for (const line of lines) textWidth = Math.max(textWidth, measuringContext.measureText(line).width);
+    }
+    return {
+        lines,
+        lineHeight,
+        padding,
+        width: Math.ceil(textWidth + padding * 2),
+        height: Math.ceil(lines.length * lineHeight + padding * 2),
+    };
+};
+
+// Resizes `canvas` to the text's box and draws the text into it. The editor
+// canvas and flattenLayers() both draw text through this, so the exported
+// pixels match what was on screen.
+export const drawTextLayer = (canvas: HTMLCanvasElement, layer: TextLayer) => {
+    const { lines, lineHeight, padding, width, height } = layoutText(layer);
+    const { style } = layer;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = toCanvasFont(style);
+    ctx.textAlign = style.align;
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    const anchorX = style.align === 'left' ? padding : style.align === 'right' ? width - padding : width / 2;
+    const hasShadow = style.shadowBlur > 0 || style.shadowDistance > 0;
+
+    lines.forEach((line, i) => {
+        const y = padding + lineHeight * (i + 0.5);
+        // The shadow goes on the first pass only, so the fill doesn't cast a
+        // second one over the outline.
+        if (hasShadow) {
+            ctx.shadowColor = style.shadowColor;
+            ctx.shadowBlur = style.shadowBlur;
+            ctx.shadowOffsetX = style.shadowDistance;
+            ctx.shadowOffsetY = style.shadowDistance;
+        }
+        if (style.strokeWidth > 0) {
+            ctx.strokeStyle = style.strokeColor;
+            ctx.lineWidth = style.strokeWidth;
+            ctx.strokeText(line, anchorX, y);
+            ctx.shadowColor = 'transparent';
+        }
+        ctx.fillStyle = style.color;
+        ctx.fillText(line, anchorX, y);
+        ctx.shadowColor = 'transparent';
+    });
+};
+
+// Asks the browser for a text layer's font, which it otherwise only fetches
+// once some text on the page uses it.
+export const loadTextLayerFont = async (layer: TextLayer): Promise<void> => {
+    try {
+        await document.fonts.load(toCanvasFont(layer.style), layer.text);
+    } catch (error) {
+        console.error("Failed to load the font for a text layer", error);
+    }
+};
+
+// The layer's size in the document, before rotation.
+export const getLayerSize = (layer: PlacedLayer): { width: number, height: number } => {
+    if (layer.kind !== 'text') return { width: layer.width * layer.scale, height: layer.height * layer.scale };
+    const { width, height } = layoutText(layer);
+    return { width, height };
+};
+
+// Makes the layer `factor` times as large: image layers by scaling, text by
+// its font size, so the text is drawn sharp at any size.
+export const resizeLayer = (layer: PlacedLayer, factor: number): LayerChanges => {
+    if (layer.kind !== 'text') return { scale: Math.min(MAX_LAYER_SCALE, Math.max(MIN_LAYER_SCALE, layer.scale * factor)) };
+    const fontSize = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(layer.style.fontSize * factor)));
+    return { style: { ...layer.style, fontSize } };
+};
+
+const normalizeDegrees = (degrees: number) => ((degrees + 540) % 360) - 180;
+
+// Moves every placed layer the way an edit moved the photo beneath it, so
+// each stays over the same part of the picture. A flip mirrors where a layer
+// sits and its angle, but not its contents, so text stays readable.
+export const mapLayers = (layers: Layer[], mapping: ImageMapping): Layer[] =>
+    layers.map(layer => {
+        if (!isPlacedLayer(layer)) return layer;
+        const { x, y } = mapping.mapPoint(layer.x, layer.y);
+        const rotation = Math.round(normalizeDegrees(mapping.mapRotation(layer.rotation)) * 10) / 10;
+        const resized = mapping.scale === 1 ? {} : resizeLayer(layer, mapping.scale);
+        return { ...layer, x, y, rotation, ...resized } as Layer;
+    });
+
+// --- Stickers ---
+
+// SVGs without a size of their own are drawn at this size.
+const DEFAULT_SVG_EDGE = 1024;
+// Longest side an SVG is drawn at, so logos stay sharp when scaled up.
+const MAX_SVG_EDGE = 4096;
+
+const loadImageElement = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("This file could not be read as an image."));
+    image.src = url;
+});
+
+// Sticker layers keep pixels like any other image layer, so an SVG is drawn
+// into a PNG once, when it is imported. Other images are used as they are.
+export const prepareStickerImage = async (file: File): Promise<File> => {
+    if (file.type !== 'image/svg+xml' && !file.name.toLowerCase().endsWith('.svg')) return file;
+    const url = URL.createObjectURL(new Blob([file], { type: 'image/svg+xml' }));
+    try {
+        const image = await loadImageElement(url);
+        const width = image.naturalWidth || DEFAULT_SVG_EDGE;
+        const height = image.naturalHeight || DEFAULT_SVG_EDGE;
+        const scale = Math.min(MAX_SVG_EDGE / Math.max(width, height), Math.max(1, DEFAULT_SVG_EDGE / Math.max(width, height)));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not get canvas context for the sticker.");
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        const blob = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(result => result ? resolve(result) : reject(new Error("Failed to encode the sticker.")), 'image/png');
+        });
+        return new File([blob], file.name.replace(/\.svg$/i, '.png'), { type: 'image/png' });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const readImageSize = async (image: Blob): Promise<{ width: number, height: number }> => {
+    const bitmap = await createImageBitmap(image);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+};
+
+// Composites the stack, bottom first, into an image the size of the photo.
+// Hidden layers are left out and uncovered areas stay transparent.
+export const flattenLayers = async (
+    photo: Blob,
+    layers: Layer[],
+    getLayerImage: (imageId: string) => Promise<Blob>
+): Promise<Blob> => {
+    const photoBitmap = await createImageBitmap(photo);
+    const canvas = document.createElement('canvas');
+    canvas.width = photoBitmap.width;
+    canvas.height = photoBitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context to flatten the layers.");
+    ctx.imageSmoothingQuality = 'high';
+
+    try {
+        for (const layer of layers) {
+            if (!layer.visible || layer.opacity === 0) continue;
+            ctx.globalAlpha = layer.opacity;
+            ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+            if (!isPlacedLayer(layer)) {
+                ctx.drawImage(photoBitmap, 0, 0);
+                continue;
+            }
+            // Text is measured in its own font, so that has to load first.
+            if (layer.kind === 'text') await loadTextLayerFont(layer);
+            const { width, height } = getLayerSize(layer);
+            ctx.save();
+            ctx.translate(layer.x, layer.y);
+            ctx.rotate(layer.rotation * Math.PI / 180);
+            if (layer.kind === 'text') {
+                const text = document.createElement('canvas');
+                drawTextLayer(text, layer);
+                ctx.drawImage(text, -width / 2, -height / 2);
+            } else {
+                const bitmap = await createImageBitmap(await getLayerImage(layer.imageId));
+                ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+                bitmap.close();
+            }
+            ctx.restore();
+        }
+    } finally {
+        photoBitmap.close();
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the flattened image.")), 'image/png');
+    });
+};
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Tonal and color adjustments computed in the browser. Nothing here calls the
+// AI provider: the same pixel pipeline renders the live preview on a
+// downscaled copy and the final edit at full resolution.
+
+export interface LocalAdjustments {
+    exposure: number;
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    vibrance: number;
+    temperature: number;
+    tint: number;
+    highlights: number;
+    shadows: number;
+    sharpen: number;
+    vignette: number;
+}
+
+export type LocalAdjustmentKey = keyof LocalAdjustments;
+
+export const DEFAULT_LOCAL_ADJUSTMENTS: LocalAdjustments = {
+    exposure: 0,
+    brightness: 0,
+    contrast: 0,
+    saturation: 0,
+    vibrance: 0,
+    temperature: 0,
+    tint: 0,
+    highlights: 0,
+    shadows: 0,
+    sharpen: 0,
+    vignette: 0,
+};
+
+export const LOCAL_ADJUSTMENT_SLIDERS: { key: LocalAdjustmentKey, label: string, min: number, max: number }[] = [
+    { key: 'exposure', label: 'Exposure', min: -100, max: 100 },
+    { key: 'brightness', label: 'Brightness', min: -100, max: 100 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+    { key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+    { key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+    { key: 'vibrance', label: 'Vibrance', min: -100, max: 100 },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100 },
+    { key: 'tint', label: 'Tint', min: -100, max: 100 },
+    { key: 'sharpen', label: 'Sharpen', min: 0, max: 100 },
+    { key: 'vignette', label: 'Vignette', min: 0, max: 100 },
+];
+
+// The longest edge of the copy the live preview is rendered on.
+export const PREVIEW_MAX_EDGE = 1024;
+
+export const isDefaultAdjustments = (adjustments: LocalAdjustments): boolean =>
+    LOCAL_ADJUSTMENT_SLIDERS.every(({ key }) => adjustments[key] === DEFAULT_LOCAL_ADJUSTMENTS[key]);
+
+// A short summary for the history panel, e.g. "Exposure +20, Vignette +35".
+export const describeLocalAdjustments = (adjustments: LocalAdjustments): string =>
+    LOCAL_ADJUSTMENT_SLIDERS
+        .filter(({ key }) => adjustments[key] !== DEFAULT_LOCAL_ADJUSTMENTS[key])
+        .map(({ key, label }) => `${label} ${adjustments[key] > 0 ? '+' : ''}${adjustments[key]}`)
+        .join(', ');
+
+const clamp01 = (value: number) => value < 0 ? 0 : value > 1 ? 1 : value;
+
+// Adjusts the pixels in place. Sliders run from -100 to 100 (0 to 100 for
+// sharpen and vignette) and are scaled so the ends are strong but usable.
+export const applyLocalAdjustments = (imageData: ImageData, adjustments: LocalAdjustments) => {
+    const { data, width, height } = imageData;
+    const exposure = Math.pow(2, adjustments.exposure / 50); // ±2 stops
+    const brightness = adjustments.brightness / 400;
+    const contrast = 1 + adjustments.contrast / 100;
+    const saturation = 1 + adjustments.saturation / 100;
+    const vibrance = adjustments.vibrance / 100;
+    const temperature = adjustments.temperature / 1000;
+    const tint = adjustments.tint / 1000;
+    const highlights = adjustments.highlights / 250;
+    const shadows = adjustments.shadows / 250;
+    const vignette = adjustments.vignette / 100;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistance = Math.hypot(centerX, centerY);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            let r = data[i] / 255 * exposure + brightness;
+            let g = data[i + 1] / 255 * exposure + brightness;
+            let b = data[i + 2] / 255 * exposure + brightness;
+
+            r = (r - 0.5) * contrast + 0.5;
+            g = (g - 0.5) * contrast + 0.5;
+            b = (b - 0.5) * contrast + 0.5;
+
+            // Highlights and shadows shift the tones near their end of the range.
+            const lum = clamp01(0.2126 * r + 0.7152 * g + 0.0722 * b);
+            const tone = highlights * lum * lum + shadows * (1 - lum) * (1 - lum);
+            r += tone;
+            g += tone;
+            b += tone;
+
+            // Warmer moves toward orange, a positive tint toward magenta.
+            r += temperature + tint / 2;
+            g -= tint;
+            b -= temperature - tint / 2;
+
+            // Vibrance boosts muted colors more than already saturated ones.
+            const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+            const colorScale = saturation * (1 + vibrance * (1 - clamp01(chroma)));
+            r = gray + (r - gray) * colorScale;
+            g = gray + (g - gray) * colorScale;
+            b = gray + (b - gray) * colorScale;
+
+            if (vignette > 0) {
+                const distance = Math.hypot(x - centerX, y - centerY) / maxDistance;
+                const falloff = clamp01((distance - 0.35) / 0.65);
+                const darken = 1 - vignette * 0.8 * falloff * falloff;
+                r *= darken;
+                g *= darken;
+                b *= darken;
+            }
+
+            data[i] = clamp01(r) * 255;
+            data[i + 1] = clamp01(g) * 255;
+            data[i + 2] = clamp01(b) * 255;
+        }
+    }
+
+    if (adjustments.sharpen > 0) sharpenImage(imageData, adjustments.sharpen / 100);
+};
+
+// Unsharp mask with a 3x3 kernel. Edge pixels are left as they are.
+const sharpenImage = (imageData: ImageData, amount: number) => {
+    const { data, width, height } = imageData;
+    const source = new Uint8ClampedArray(data);
+    const row = width * 4;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * row + x * 4;
+            for (let c = 0; c < 3; c++) {
+                const center = source[i + c];
+                const neighbours = source[i + c - 4] + source[i + c + 4] + source[i + c - row] + source[i + c + row];
+                data[i + c] = center + amount * (4 * center - neighbours);
+            }
+        }
+    }
+};
+
+// Draws the image at most `maxEdge` pixels on its longest side and returns its pixels.
+export const readImagePixels = async (image: Blob, maxEdge = Infinity): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context for the adjustment.");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Renders the adjustments at full resolution as a PNG.
+export const renderLocalAdjustments = async (image: Blob, adjustments: LocalAdjustments): Promise<Blob> => {
+    const pixels = await readImagePixels(image);
+    applyLocalAdjustments(pixels, adjustments);
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the adjustment.");
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the adjusted image.")), 'image/png');
+    });
+};
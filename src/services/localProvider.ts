@@ -0,0 +1,386 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// An offline stand-in for the Gemini provider. Every operation is a
+// deterministic canvas transform or canned response, so the editor and mission
+// flows can be exercised without a network connection or an API key.
+
+import type { AIProvider, VideoOperation } from './aiProvider';
+import type { CropSuggestion } from '../App';
+import { delay, throwIfAborted } from './abort';
+import type { ImageGenerationParams, VideoGenerationParams } from './generationParams';
+
+// Simulated latency so loading states are visible, and how long a fake video
+// operation stays "running" before it reports done.
+const LOCAL_LATENCY_MS = 600;
+const LOCAL_VIDEO_RENDER_MS = 15000;
+const LOCAL_VIDEO_CLIP_MS = 3000;
+
+// Small, stable string hash used to derive colors and effects from prompts.
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const loadImage = (source: Blob | string): Promise<HTMLImageElement> => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new Error("Could not decode image."));
+        };
+        img.src = url;
+    });
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    return { canvas, ctx };
+};
+
+const drawWithFilter = async (file: File, filter: string): Promise<string> => {
+    const img = await loadImage(file);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = filter;
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const FILTER_LOOKS = [
+    'sepia(0.8) contrast(1.1)',
+    'hue-rotate(90deg) saturate(1.5)',
+    'contrast(1.4) saturate(1.6)',
+    'grayscale(1) contrast(1.2)',
+    'hue-rotate(200deg) saturate(1.3) brightness(1.05)',
+];
+
+// The app composites the result back through the mask, so recoloring the whole
+// frame is enough to make the edit visibly localized.
+const generateEditedImage = async (
+    originalImage: File,
+    userPrompt: string,
+    _mask: File,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    return drawWithFilter(originalImage, `hue-rotate(${hashString(userPrompt) % 360}deg) saturate(1.4)`);
+};
+
+const generateFilteredImage = async (
+    originalImage: File,
+    filterPrompt: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    return drawWithFilter(originalImage, FILTER_LOOKS[hashString(filterPrompt) % FILTER_LOOKS.length]);
+};
+
+const removeBackgroundImage = async (
+    originalImage: File,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const img = await loadImage(originalImage);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data, width, height } = imageData;
+
+    // Treat the average corner color as "background" and clear anything close to it.
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+    const bg = [0, 1, 2].map(c => corners.reduce((sum, i) => sum + data[i * 4 + c], 0) / corners.length);
+    const threshold = 60;
+    for (let i = 0; i < data.length; i += 4) {
+        const distance = Math.abs(data[i] - bg[0]) + Math.abs(data[i + 1] - bg[1]) + Math.abs(data[i + 2] - bg[2]);
+        if (distance < threshold) data[i + 3] = 0;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const upscaleImage = async (
+    originalImage: File,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const img = await loadImage(originalImage);
+    const scale = Math.min(2, 4096 / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+const balanceImageColors = async (
+    originalImage: File,
+    colorPrompt: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const request = colorPrompt.toLowerCase();
+    if (request.includes('warm')) return drawWithFilter(originalImage, 'sepia(0.25) saturate(1.2)');
+    if (request.includes('cool') || request.includes('cold')) return drawWithFilter(originalImage, 'hue-rotate(-15deg) saturate(0.9)');
+
+    // Otherwise stretch each channel to the full range (simple auto-levels).
+    const img = await loadImage(originalImage);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    const min = [255, 255, 255];
+    const max = [0, 0, 0];
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            min[c] = Math.min(min[c], data[i + c]);
+            max[c] = Math.max(max[c], data[i + c]);
+        }
+    }
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            const range = max[c] - min[c] || 1;
+            data[i + c] = ((data[i + c] - min[c]) / range) * 255;
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Paints a gradient "artwork" with the prompt written across it.
+const paintPromptCard = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, seed: number, phase = 0) => {
+    const hueA = seed % 360;
+    const hueB = (hueA + 60 + (seed % 120)) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${(hueA + phase) % 360}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hueB + phase) % 360}, 70%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = `bold ${Math.round(width / 20)}px Inter, sans-serif`;
+    ctx.textAlign = 'center';
+    const words = prompt.split(/\s+/).slice(0, 18);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > width * 0.8 && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    const lineHeight = width / 15;
+    const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((text, i) => ctx.fillText(text, width / 2, top + i * lineHeight));
+};
+
+const generateImageFromPrompt = async (
+    prompt: string,
+    params: ImageGenerationParams,
+    signal?: AbortSignal
+): Promise<string[]> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const seed = hashString(prompt);
+    // Cards are 512px on their longest edge, shaped by the requested aspect ratio.
+    const [w, h] = params.aspectRatio.split(':').map(Number);
+    const scale = 512 / Math.max(w, h);
+    return Array.from({ length: params.numberOfImages }, (_, variant) => {
+        const { canvas, ctx } = createCanvas(Math.round(w * scale), Math.round(h * scale));
+        paintPromptCard(ctx, canvas.width, canvas.height, prompt, seed + variant * 47);
+        return canvas.toDataURL(params.outputMimeType).split(',')[1];
+    });
+};
+
+// A small copy of the reference image rides along in the operation metadata,
+// since the operation is all downloadVideos gets to work with.
+const encodeReferenceFrame = async (referenceImage: File): Promise<string> => {
+    const img = await loadImage(referenceImage);
+    const scale = Math.min(1, 640 / img.naturalWidth, 360 / img.naturalHeight);
+    const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const generateVideoFromPrompt = async (
+    prompt: string,
+    params: VideoGenerationParams,
+    referenceImage?: File,
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const referenceFrame = referenceImage ? await encodeReferenceFrame(referenceImage) : undefined;
+    return {
+        name: `local-operations/${Date.now()}`,
+        done: false,
+        metadata: { prompt, startedAt: Date.now(), referenceFrame, numberOfVideos: params.numberOfVideos, aspectRatio: params.aspectRatio },
+    };
+};
+
+const checkVideoOperationStatus = async (
+    operation: VideoOperation,
+    signal?: AbortSignal
+): Promise<VideoOperation> => {
+    throwIfAborted(signal);
+    const startedAt = Number(operation.metadata?.startedAt ?? 0);
+    if (Date.now() - startedAt < LOCAL_VIDEO_RENDER_MS) {
+        return { ...operation, done: false };
+    }
+    const count = Number(operation.metadata?.numberOfVideos ?? 1);
+    return {
+        ...operation,
+        done: true,
+        response: {
+            generatedVideos: Array.from({ length: count }, (_, i) => ({ video: { uri: `local-video://${operation.name}/${i}`, mimeType: 'video/webm' } })),
+        },
+    };
+};
+
+// Records a short animated clip of the prompt card (or a push-in on the
+// reference frame) using MediaRecorder.
+const recordClip = async (
+    prompt: string,
+    seed: number,
+    frame: HTMLImageElement | null,
+    portrait: boolean,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const { canvas, ctx } = portrait ? createCanvas(360, 640) : createCanvas(640, 360);
+    const recorder = new MediaRecorder(canvas.captureStream(24), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const startedAt = performance.now();
+    recorder.start();
+    await new Promise<void>(resolve => {
+        const drawFrame = () => {
+            const elapsed = performance.now() - startedAt;
+            if (signal?.aborted) return resolve();
+            if (frame) {
+                // Slow push-in on the starting frame.
+                const zoom = 1 + (elapsed / LOCAL_VIDEO_CLIP_MS) * 0.15;
+                const scale = Math.max(canvas.width / frame.naturalWidth, canvas.height / frame.naturalHeight) * zoom;
+                const w = frame.naturalWidth * scale;
+                const h = frame.naturalHeight * scale;
+                ctx.drawImage(frame, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+            } else {
+                paintPromptCard(ctx, canvas.width, canvas.height, prompt, seed, (elapsed / LOCAL_VIDEO_CLIP_MS) * 120);
+            }
+            if (elapsed < LOCAL_VIDEO_CLIP_MS) {
+                requestAnimationFrame(drawFrame);
+            } else {
+                resolve();
+            }
+        };
+        drawFrame();
+    });
+    recorder.stop();
+    await stopped;
+    throwIfAborted(signal);
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+const downloadVideos = async (
+    operation: VideoOperation,
+    signal?: AbortSignal
+): Promise<Blob[]> => {
+    throwIfAborted(signal);
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error("This browser cannot record the offline preview video.");
+    }
+    const prompt = String(operation.metadata?.prompt ?? '');
+    const referenceFrame = operation.metadata?.referenceFrame;
+    const frame = typeof referenceFrame === 'string' ? await loadImage(referenceFrame) : null;
+    const portrait = operation.metadata?.aspectRatio === '9:16';
+    const clips: Blob[] = [];
+    // Clips are recorded in real time, so one after the other.
+    for (let i = 0; i < (operation.response?.generatedVideos?.length ?? 1); i++) {
+        clips.push(await recordClip(prompt, hashString(prompt) + i * 47, frame, portrait, signal));
+    }
+    return clips;
+};
+
+const PROMPT_FLOURISHES = [
+    'bathed in soft golden-hour light, shallow depth of field, rich textures',
+    'dramatic rim lighting, moody atmosphere, cinematic composition',
+    'vivid colors, crisp detail, wide-angle perspective, high dynamic range',
+    'gentle pastel palette, dreamy haze, painterly brushwork',
+];
+
+const enhancePrompt = async (
+    idea: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const trimmed = idea.trim();
+    return `${trimmed}, ${PROMPT_FLOURISHES[hashString(trimmed) % PROMPT_FLOURISHES.length]}`;
+};
+
+const analyzeVideoFrame = async (
+    base64ImageData: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    const img = await loadImage(`data:image/jpeg;base64,${base64ImageData}`);
+    const { ctx } = createCanvas(32, 32);
+    ctx.drawImage(img, 0, 0, 32, 32);
+    const { data } = ctx.getImageData(0, 0, 32, 32);
+    const avg = [0, 0, 0];
+    for (let i = 0; i < data.length; i += 4) {
+        avg[0] += data[i];
+        avg[1] += data[i + 1];
+        avg[2] += data[i + 2];
+    }
+    const pixels = data.length / 4;
+    const [r, g, b] = avg.map(v => Math.round(v / pixels));
+    const brightness = (r * 299 + g * 587 + b * 114) / 1000;
+    const tone = brightness > 170 ? 'bright' : brightness > 85 ? 'moderately lit' : 'dark';
+    const dominant = r >= g && r >= b ? 'warm reds' : g >= b ? 'greens' : 'cool blues';
+    return `Offline analysis: this ${img.naturalWidth}×${img.naturalHeight} frame is ${tone}, dominated by ${dominant} (average color rgb(${r}, ${g}, ${b})).`;
+};
+
+const CANNED_CROP_SUGGESTIONS: CropSuggestion[] = [
+    { name: 'Rule of Thirds', crop: { x: 0, y: 0, width: 66.67, height: 100 } },
+    { name: 'Centered Close-up', crop: { x: 20, y: 20, width: 60, height: 60 } },
+    { name: 'Wide Banner', crop: { x: 0, y: 25, width: 100, height: 50 } },
+];
+
+const getAICropSuggestions = async (
+    _image: File,
+    signal?: AbortSignal
+): Promise<CropSuggestion[]> => {
+    await delay(LOCAL_LATENCY_MS, signal);
+    return CANNED_CROP_SUGGESTIONS.map(s => ({ name: s.name, crop: { ...s.crop } }));
+};
+
+export const localProvider: AIProvider = {
+    name: 'local',
+    generateEditedImage,
+    generateFilteredImage,
+    removeBackgroundImage,
+    upscaleImage,
+    balanceImageColors,
+    generateImageFromPrompt,
+    generateVideoFromPrompt,
+    checkVideoOperationStatus,
+    downloadVideos,
+    enhancePrompt,
+    analyzeVideoFrame,
+    getAICropSuggestions,
+};
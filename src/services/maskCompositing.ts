@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Helpers for mask-based retouching. A mask is a canvas the size of the image
+// whose alpha channel marks the region the user painted.
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Could not decode image."));
+        img.src = src;
+    });
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, filename: string): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) return reject(new Error("Could not encode mask image."));
+            resolve(new File([blob], filename, { type: 'image/png' }));
+        }, 'image/png');
+    });
+};
+
+// Copies a mask so later painting can't change an edit that is already in flight.
+export const snapshotMask = (mask: HTMLCanvasElement): HTMLCanvasElement => {
+    const copy = document.createElement('canvas');
+    copy.width = mask.width;
+    copy.height = mask.height;
+    copy.getContext('2d')?.drawImage(mask, 0, 0);
+    return copy;
+};
+
+// Returns true if no pixel of the mask has been painted.
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+    const ctx = mask.getContext('2d');
+    if (!ctx || mask.width === 0 || mask.height === 0) return true;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+// Renders the mask as an opaque black/white PNG suitable for sending to the model.
+export const createMaskImage = async (mask: HTMLCanvasElement): Promise<File> => {
+    const painted = document.createElement('canvas');
+    painted.width = mask.width;
+    painted.height = mask.height;
+    const paintedCtx = painted.getContext('2d');
+    if (!paintedCtx) throw new Error("Canvas 2D context is not available.");
+    paintedCtx.drawImage(mask, 0, 0);
+    paintedCtx.globalCompositeOperation = 'source-in';
+    paintedCtx.fillStyle = '#ffffff';
+    paintedCtx.fillRect(0, 0, painted.width, painted.height);
+
+    const output = document.createElement('canvas');
+    output.width = mask.width;
+    output.height = mask.height;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.drawImage(painted, 0, 0);
+    return canvasToFile(output, `mask-${Date.now()}.png`);
+};
+
+// Softens the mask's edge inward: the painted area is shrunk by about the
+// feather radius, blurred back out to the stroke's edge, then clipped to the
+// stroke so the feather never reaches unpainted pixels.
+const featherMask = (mask: HTMLCanvasElement, width: number, height: number, feather: number): HTMLCanvasElement => {
+    const eroded = document.createElement('canvas');
+    eroded.width = width;
+    eroded.height = height;
+    const erodedCtx = eroded.getContext('2d', { willReadFrequently: true });
+    if (!erodedCtx) throw new Error("Canvas 2D context is not available.");
+    // Only pixels about a feather radius inside the stroke stay fully opaque
+    // after a blur, so thresholding the blur erodes the mask.
+    erodedCtx.filter = `blur(${feather / 2}px)`;
+    erodedCtx.drawImage(mask, 0, 0, width, height);
+    const pixels = erodedCtx.getImageData(0, 0, width, height);
+    const { data } = pixels;
+    for (let i = 3; i < data.length; i += 4) {
+        data[i] = data[i] >= 250 ? 255 : 0;
+    }
+    erodedCtx.putImageData(pixels, 0, 0);
+
+    const feathered = document.createElement('canvas');
+    feathered.width = width;
+    feathered.height = height;
+    const ctx = feathered.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    ctx.filter = `blur(${feather / 2}px)`;
+    ctx.drawImage(eroded, 0, 0);
+    ctx.filter = 'none';
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, 0, 0, width, height);
+    return feathered;
+};
+
+// Blends the AI result into the original only where the mask is painted.
+// Pixels outside the mask are copied from the original untouched; the
+// feather fades the edit out inside the painted area.
+export const compositeMaskedEdit = async (
+    original: File,
+    editedDataUrl: string,
+    mask: HTMLCanvasElement,
+    feather: number
+): Promise<string> => {
+    const originalUrl = URL.createObjectURL(original);
+    try {
+        const [originalImg, editedImg] = await Promise.all([loadImage(originalUrl), loadImage(editedDataUrl)]);
+        const width = originalImg.naturalWidth;
+        const height = originalImg.naturalHeight;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+        // The model may return a different resolution; map it back onto the original.
+        ctx.drawImage(editedImg, 0, 0, width, height);
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(feather > 0 ? featherMask(mask, width, height, feather) : mask, 0, 0, width, height);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.drawImage(originalImg, 0, 0);
+
+        return canvas.toDataURL('image/png');
+    } finally {
+        URL.revokeObjectURL(originalUrl);
+    }
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission } from '../App';
+import { getAudio, getReferenceImage, getResult, getVideoClips, isImageResult } from './storage';
+import { createZip, type ZipEntry } from './zipWriter';
+import { getImageParams, getVideoParams } from './generationParams';
+import { base64ToBlob } from './imageCodec';
+
+const EXTENSIONS: Record<string, string> = {
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/ogg': 'ogg',
+    'audio/webm': 'webm',
+    'audio/aac': 'aac',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+};
+
+const extensionFor = (mimeType: string, fallback: string) => EXTENSIONS[mimeType.split(';')[0]] ?? fallback;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// Packages the stored results of the given missions into one ZIP. Each
+// mission gets its own folder and manifest.json describes them all.
+// Missions without a stored result are still listed in the manifest.
+export const exportMissionsAsZip = async (missions: Mission[]): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    const manifestMissions = [];
+
+    for (const mission of missions) {
+        const folder = missions.length > 1 ? `${mission.id}/` : '';
+        const createdAt = new Date(mission.createdAt);
+        const files: string[] = [];
+        const addFile = (name: string, data: ZipEntry['data']) => {
+            entries.push({ name: folder + name, data, lastModified: createdAt });
+            files.push(folder + name);
+        };
+
+        const result = mission.result ? await getResult(mission.id) : undefined;
+        if (result && isImageResult(result)) {
+            const mimeType = getImageParams(mission.imageParams).outputMimeType;
+            const extension = extensionFor(mimeType, 'png');
+            for (const [index, image] of result.entries()) {
+                addFile(`image-${index + 1}.${extension}`, await base64ToBlob(image, mimeType));
+            }
+        } else if (result) {
+            const clips = getVideoClips(result);
+            clips.forEach((clip, index) => addFile(`${clips.length > 1 ? `video-${index + 1}` : 'video'}.${extensionFor(clip.type, 'mp4')}`, clip));
+        }
+
+        if (mission.audioId) {
+            const audio = await getAudio(mission.audioId);
+            if (audio) addFile(`audio.${extensionFor(audio.type, 'bin')}`, audio);
+        }
+
+        if (mission.referenceImageId) {
+            const referenceImage = await getReferenceImage(mission.referenceImageId);
+            if (referenceImage) addFile(`reference.${extensionFor(referenceImage.type, 'png')}`, referenceImage);
+        }
+
+        manifestMissions.push({
+            id: mission.id,
+            type: mission.type,
+            prompt: mission.prompt,
+            style: mission.style ?? null,
+            imageParams: mission.type === 'image-gen' ? getImageParams(mission.imageParams) : null,
+            videoParams: mission.type === 'video-gen' ? getVideoParams(mission.videoParams) : null,
+            status: mission.status,
+            createdAt: createdAt.toISOString(),
+            files,
+        });
+    }
+
+    const manifest = {
+        app: 'Peter Pixx',
+        exportedAt: new Date().toISOString(),
+        missions: manifestMissions,
+    };
+    entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+    return createZip(entries);
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission, MissionType } from '../App';
+import type { AppSettings } from './settings';
+
+export interface SchedulerLimits {
+    maxConcurrentImageJobs: number;
+    maxConcurrentVideoJobs: number;
+}
+
+export const DEFAULT_SCHEDULER_LIMITS: SchedulerLimits = {
+    maxConcurrentImageJobs: 2,
+    maxConcurrentVideoJobs: 1,
+};
+
+export const getSchedulerLimits = (settings: AppSettings): SchedulerLimits => ({
+    maxConcurrentImageJobs: settings.maxConcurrentImageJobs ?? DEFAULT_SCHEDULER_LIMITS.maxConcurrentImageJobs,
+    maxConcurrentVideoJobs: settings.maxConcurrentVideoJobs ?? DEFAULT_SCHEDULER_LIMITS.maxConcurrentVideoJobs,
+});
+
+// Queue State Management (localStorage)
+const QUEUE_STATE_STORAGE_KEY = 'peter-pixx-queue';
+
+export const getQueuePausedFromStorage = (): boolean => {
+    try {
+        const state = localStorage.getItem(QUEUE_STATE_STORAGE_KEY);
+        return state ? Boolean(JSON.parse(state).paused) : false;
+    } catch (error) {
+        console.error("Failed to parse queue state from localStorage", error);
+        return false;
+    }
+};
+
+export const saveQueuePausedToStorage = (paused: boolean) => {
+    try {
+        localStorage.setItem(QUEUE_STATE_STORAGE_KEY, JSON.stringify({ paused }));
+    } catch (error) {
+        console.error("Failed to save queue state to localStorage", error);
+    }
+};
+
+const limitFor =(type: MissionType, limits: SchedulerLimits) =>
+    type === 'image-gen' ? limits.maxConcurrentImageJobs : limits.maxConcurrentVideoJobs;
+
+// Picks the pending missions that may start now. The missions array order is
+// the queue order, `running` holds the ids already being processed (so a
+// mission is never handed out twice), and each mission type has its own cap.
+export const selectMissionsToStart = (
+    missions: Mission[],
+    running: ReadonlySet<string>,
+    limits: SchedulerLimits,
+    isQueuePaused: boolean
+): Mission[] => {
+    if (isQueuePaused) return [];
+
+    const runningCount: Record<MissionType, number> = { 'image-gen': 0, 'video-gen': 0 };
+    missions.forEach(m => {
+        if (running.has(m.id)) runningCount[m.type]++;
+    });
+
+    const toStart: Mission[] = [];
+    for (const mission of missions) {
+        if (mission.status !== 'pending' || running.has(mission.id)) continue;
+        if (runningCount[mission.type] >= limitFor(mission.type, limits)) continue;
+        runningCount[mission.type]++;
+        toStart.push(mission);
+    }
+    return toStart;
+};
+
+// Moves `draggedId` so it sits just before `targetId` in the queue.
+export const reorderMissions = (missions: Mission[], draggedId: string, targetId: string): Mission[] => {
+    if (draggedId === targetId) return missions;
+    const dragged = missions.find(m => m.id === draggedId);
+    if (!dragged) return missions;
+    const remaining = missions.filter(m => m.id !== draggedId);
+    const targetIndex = remaining.findIndex(m => m.id === targetId);
+    if (targetIndex === -1) return missions;
+    return [...remaining.slice(0, targetIndex), dragged, ...remaining.slice(targetIndex)];
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission } from '../App';
+
+// Browser notifications for finished missions, plus the unread count shown in
+// the document title and favicon.
+
+export const areNotificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    if (!areNotificationsSupported()) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+// A finished mission nobody has looked at yet. Missions saved before the flag
+// existed have no `seen` value and count as seen.
+export const isUnread = (mission: Mission): boolean =>
+    mission.seen === false && (mission.status === 'completed' || mission.status === 'failed');
+
+// Skipped while the app has focus; the Missions panel already shows the result.
+export const notifyMissionFinished = (mission: Mission, onClick: () => void) => {
+    if (!areNotificationsSupported() || Notification.permission !== 'granted' || document.hasFocus()) return;
+    const kind = mission.type === 'image-gen' ? 'Image' : 'Video';
+    const notification = new Notification(
+        mission.status === 'completed' ? `${kind} mission complete` : `${kind} mission failed`,
+        {
+            body: mission.status === 'completed' ? mission.prompt : (mission.error ?? mission.prompt),
+            tag: mission.id,
+        }
+    );
+    notification.onclick = () => {
+        window.focus();
+        onClick();
+        notification.close();
+    };
+};
+
+const BASE_TITLE = 'Peter Pixx';
+let baseFaviconHref: string | null = null;
+let faviconImage: Promise<HTMLImageElement> | null = null;
+// Drawing is async, so a stale badge must not overwrite a newer count.
+let badgeVersion = 0;
+
+const getFaviconLink = (): HTMLLinkElement | null => document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+
+const loadFavicon = (href: string): Promise<HTMLImageElement> => {
+    faviconImage ??= new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = href;
+    });
+    return faviconImage;
+};
+
+// Draws the count as a badge over the original favicon.
+const drawBadgedFavicon = async (href: string, count: number): Promise<string> => {
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the favicon.");
+    ctx.drawImage(await loadFavicon(href), 0, 0, size, size);
+    const radius = size * 0.3;
+    ctx.fillStyle = '#e11d48';
+    ctx.beginPath();
+    ctx.arc(size - radius, radius, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#fff';
+    ctx.font = `bold ${Math.round(radius * 1.3)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(count > 9 ? '9+' : String(count), size - radius, radius + 1);
+    return canvas.toDataURL('image/png');
+};
+
+export const updateUnreadBadge = async (count: number) => {
+    document.title = count > 0 ? `(${count}) ${BASE_TITLE}` : BASE_TITLE;
+
+    const link = getFaviconLink();
+    if (!link) return;
+    baseFaviconHref ??= link.href;
+    const version = ++badgeVersion;
+    if (count === 0) {
+        link.href = baseFaviconHref;
+        return;
+    }
+    try {
+        const href = await drawBadgedFavicon(baseFaviconHref, count);
+        if (version === badgeVersion) link.href = href;
+    } catch (error) {
+        console.error("Failed to draw the favicon badge", error);
+    }
+};
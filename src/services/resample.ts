@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Resizes images with a chosen filter instead of whatever the browser's canvas
+// smoothing happens to do. Filtering is separable: rows first, then columns,
+// on premultiplied alpha so transparent edges don't bleed dark. The filtering
+// itself runs in the image codec worker.
+
+import { resampleInWorker } from './imageCodec';
+
+export type ResamplingMethod = 'nearest' | 'bilinear' | 'bicubic' | 'lanczos';
+
+export const RESAMPLING_METHODS: { method: ResamplingMethod, label: string }[] = [
+    { method: 'nearest', label: 'Nearest neighbour' },
+    { method: 'bilinear', label: 'Bilinear' },
+    { method: 'bicubic', label: 'Bicubic' },
+    { method: 'lanczos', label: 'Lanczos' },
+];
+
+// Larger than this on either side is refused; the canvas can't hold it anyway.
+export const MAX_RESIZE_EDGE = 16384;
+
+// The whole result is refused past this many pixels. Filtering keeps a float
+// copy of the image at 16 bytes a pixel, and Safari's canvas stops at this
+// size (4096 x 4096) too.
+export const MAX_RESIZE_PIXELS = 16_777_216;
+
+interface Kernel {
+    support: number;
+    weight: (x: number) => number;
+}
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+const KERNELS: Record<Exclude<ResamplingMethod, 'nearest'>, Kernel> = {
+    bilinear: { support: 1, weight: (x) => Math.max(0, 1 - Math.abs(x)) },
+    // Keys' cubic with a = -0.5 (Catmull-Rom).
+    bicubic: {
+        support: 2,
+        weight: (x) => {
+            const t = Math.abs(x);
+            if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+            if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+            return 0;
+        },
+    },
+    lanczos: { support: 3, weight: (x) => Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0 },
+};
+
+interface Contribution {
+    indices: Int32Array;
+    weights: Float32Array;
+}
+
+// Which source pixels make up each output pixel along one axis. When
+// shrinking, the kernel is widened so every source pixel is counted.
+const computeContributions = (sourceLength: number, targetLength: number, kernel: Kernel): Contribution[] => {
+    const ratio = sourceLength / targetLength;
+    const scale = Math.max(1, ratio);
+    const support = kernel.support * scale;
+    return Array.from({ length: targetLength }, (_, target) => {
+        const center = (target + 0.5) * ratio - 0.5;
+        const indices: number[] = [];
+        const weights: number[] = [];
+        let total = 0;
+        for (let source = Math.ceil(center - support); source <= Math.floor(center + support); source++) {
+            const weight = kernel.weight((source - center) / scale);
+            if (weight === 0) continue;
+            indices.push(Math.min(sourceLength - 1, Math.max(0, source)));
+            weights.push(weight);
+            total += weight;
+        }
+        if (total === 0) {
+            return { indices: Int32Array.of(Math.min(sourceLength - 1, Math.max(0, Math.round(center)))), weights: Float32Array.of(1) };
+        }
+        return { indices: Int32Array.from(indices), weights: Float32Array.from(weights, weight => weight / total) };
+    });
+};
+
+const resampleNearest = (source: ImageData, width: number, height: number): ImageData => {
+    const target = new ImageData(width, height);
+    const pixels = new Uint32Array(source.data.buffer, source.data.byteOffset, source.width * source.height);
+    const out = new Uint32Array(target.data.buffer);
+    for (let y = 0; y < height; y++) {
+        const sourceY = Math.min(source.height - 1, Math.floor((y + 0.5) * source.height / height));
+        for (let x = 0; x < width; x++) {
+            const sourceX = Math.min(source.width - 1, Math.floor((x + 0.5) * source.width / width));
+            out[y * width + x] = pixels[sourceY * source.width + sourceX];
+        }
+    }
+    return target;
+};
+
+export const resampleImageData = (source: ImageData, width: number, height: number, method: ResamplingMethod): ImageData => {
+    if (method === 'nearest') return resampleNearest(source, width, height);
+    const kernel = KERNELS[method];
+    const { width: sourceWidth, height: sourceHeight, data } = source;
+
+    const premultiplied = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        premultiplied[i] = data[i] * alpha;
+        premultiplied[i + 1] = data[i + 1] * alpha;
+        premultiplied[i + 2] = data[i + 2] * alpha;
+        premultiplied[i + 3] = data[i + 3];
+    }
+
+    // Rows: sourceWidth x sourceHeight -> width x sourceHeight.
+    const columns = computeContributions(sourceWidth, width, kernel);
+    const horizontal = new Float32Array(width * sourceHeight * 4);
+    for (let y = 0; y < sourceHeight; y++) {
+        for (let x = 0; x < width; x++) {
+            const { indices, weights } = columns[x];
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < indices.length; k++) {
+                const i = (y * sourceWidth + indices[k]) * 4;
+                const weight = weights[k];
+                r += premultiplied[i] * weight;
+                g += premultiplied[i + 1] * weight;
+                b += premultiplied[i + 2] * weight;
+                a += premultiplied[i + 3] * weight;
+            }
+            const o = (y * width + x) * 4;
+            horizontal[o] = r;
+            horizontal[o + 1] = g;
+            horizontal[o + 2] = b;
+            horizontal[o + 3] = a;
+        }
+    }
+
+    // Columns: width x sourceHeight -> width x height, then undo the premultiply.
+    const rows = computeContributions(sourceHeight, height, kernel);
+    const target = new ImageData(width, height);
+    const out = target.data;
+    for (let y = 0; y < height; y++) {
+        const { indices, weights } = rows[y];
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < indices.length; k++) {
+                const i = (indices[k] * width + x) * 4;
+                const weight = weights[k];
+                r += horizontal[i] * weight;
+                g += horizontal[i + 1] * weight;
+                b += horizontal[i + 2] * weight;
+                a += horizontal[i + 3] * weight;
+            }
+            const o = (y * width + x) * 4;
+            const alpha = Math.min(255, Math.max(0, a));
+            const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+            out[o] = r * unpremultiply;
+            out[o + 1] = g * unpremultiply;
+            out[o + 2] = b * unpremultiply;
+            out[o + 3] = alpha;
+        }
+    }
+    return target;
+};
+
+export const resizeImage = async (image: Blob, width: number, height: number, method: ResamplingMethod): Promise<Blob> => {
+    if (width < 1 || height < 1 || width > MAX_RESIZE_EDGE || height > MAX_RESIZE_EDGE) {
+        throw new Error(`The size must be between 1 and ${MAX_RESIZE_EDGE} pixels on each side.`);
+    }
+    if (width * height > MAX_RESIZE_PIXELS) {
+        throw new Error(`The result can't be larger than ${(MAX_RESIZE_PIXELS / 1_000_000).toFixed(1)} megapixels.`);
+    }
+    const bitmap = await createImageBitmap(image);
+    const source = document.createElement('canvas');
+    source.width = bitmap.width;
+    source.height = bitmap.height;
+    const sourceCtx = source.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx) throw new Error("Could not get canvas context for the resize.");
+    sourceCtx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const resized = await resampleInWorker(sourceCtx.getImageData(0, 0, source.width, source.height), width, height, method);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the resize.");
+    ctx.putImageData(resized, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the resized image.")), 'image/png');
+    });
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ProviderName } from './aiProvider';
+
+export interface AppSettings {
+    provider?: ProviderName;
+    apiKey?: string;
+    maxConcurrentImageJobs?: number;
+    maxConcurrentVideoJobs?: number;
+    maxStorageMB?: number;
+    maxResultAgeDays?: number;
+    videoDeadlineMinutes?: number;
+    notificationsEnabled?: boolean;
+}
+
+// Settings Management (localStorage)
+const SETTINGS_STORAGE_KEY = 'peter-pixx-settings';
+
+export const getSettings = (): AppSettings => {
+    try {
+        const settings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        return settings ? JSON.parse(settings) : {};
+    } catch (error) {
+        console.error("Failed to parse settings from localStorage", error);
+        return {};
+    }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save settings to localStorage", error);
+    }
+};
+
+// The key entered in Settings wins over the one baked in at build time.
+export const getApiKey = (): string => getSettings().apiKey || process.env.API_KEY || '';
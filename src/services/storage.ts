@@ -0,0 +1,432 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EditorSource, Mission } from '../App';
+import type { EditOperation } from './editHistory';
+import type { Layer } from './layers';
+
+// --- IndexedDB Storage ---
+// Every persisted piece of mission data lives in one database. Each schema
+// version has a migration below; bump DB_VERSION and append a migration to
+// change the layout, never edit an old one.
+const DB_NAME = 'PeterPixxDB';
+const DB_VERSION = 4;
+
+const MISSIONS_STORE = 'missions';
+const RESULTS_STORE = 'missionResults';
+const AUDIO_STORE = 'audio';
+const THUMBNAILS_STORE = 'thumbnails';
+const REFERENCE_IMAGES_STORE = 'referenceImages';
+const EDITOR_SESSIONS_STORE = 'editorSessions';
+const EDITOR_IMAGES_STORE = 'editorImages';
+
+const LEGACY_MISSIONS_STORAGE_KEY = 'peter-pixx-missions';
+
+type Migration = (db: IDBDatabase) => void;
+
+const MIGRATIONS: Record<number, Migration> = {
+    1: (db) => {
+        db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+    },
+    2: (db) => {
+        db.createObjectStore(MISSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        db.createObjectStore(THUMBNAILS_STORE, { keyPath: 'id' });
+    },
+    3: (db) => {
+        db.createObjectStore(REFERENCE_IMAGES_STORE, { keyPath: 'id' });
+    },
+    4: (db) => {
+        db.createObjectStore(EDITOR_SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(EDITOR_IMAGES_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+    },
+};
+
+export class StorageError extends Error {
+    readonly quotaExceeded: boolean;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = 'StorageError';
+        this.quotaExceeded = cause instanceof DOMException && cause.name === 'QuotaExceededError';
+        if (this.quotaExceeded) {
+            this.message = `${message} Your browser storage is full; clear some completed missions and try again.`;
+        }
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+                MIGRATIONS[version]?.(db);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version of the app in another tab upgrade the schema.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Runs a write transaction and turns any failure into a StorageError the UI can show.
+const write = async (storeNames: string[], failureMessage: string, fn: (tx: IDBTransaction) => void) => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(storeNames, 'readwrite');
+        fn(tx);
+        await transactionDone(tx);
+    } catch (error) {
+        throw new StorageError(failureMessage, error);
+    }
+};
+
+// --- Missions ---
+// Missions are stored with their position so the queue order survives reloads.
+type StoredMission = Mission & { order: number };
+
+export const saveMissions = (missions: Mission[]) =>
+    write([MISSIONS_STORE], "Failed to save your missions.", (tx) => {
+        const store = tx.objectStore(MISSIONS_STORE);
+        store.clear();
+        missions.forEach((mission, order) => store.put({ ...mission, order }));
+    });
+
+const dataURLtoBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// One-time move of the missions that used to live in localStorage. Inline
+// audio data URLs are split out into the audio store on the way.
+const migrateLegacyMissions = async (): Promise<Mission[] | null> => {
+    const raw = localStorage.getItem(LEGACY_MISSIONS_STORAGE_KEY);
+    if (raw === null) return null;
+
+    let legacyMissions: (Mission & { audioDataUrl?: string })[] = [];
+    try {
+        legacyMissions = JSON.parse(raw);
+    } catch (error) {
+        console.error("Failed to parse legacy missions from localStorage", error);
+    }
+
+    const missions: Mission[] = [];
+    for (const { audioDataUrl, ...mission } of legacyMissions) {
+        if (audioDataUrl) {
+            try {
+                await saveAudio(mission.id, await dataURLtoBlob(audioDataUrl));
+                missions.push({ ...mission, audioId: mission.id });
+                continue;
+            } catch (error) {
+                console.error(`Failed to migrate audio for mission ${mission.id}`, error);
+            }
+        }
+        missions.push(mission);
+    }
+
+    await saveMissions(missions);
+    localStorage.removeItem(LEGACY_MISSIONS_STORAGE_KEY);
+    return missions;
+};
+
+export const loadMissions = async (): Promise<Mission[]> => {
+    const migrated = await migrateLegacyMissions();
+    if (migrated) return migrated;
+
+    const db = await openDB();
+    const stored = await requestToPromise<StoredMission[]>(db.transaction(MISSIONS_STORE, 'readonly').objectStore(MISSIONS_STORE).getAll());
+    return stored
+        .sort((a, b) => a.order - b.order)
+        .map(({ order: _order, ...mission }) => mission);
+};
+
+// --- Results ---
+// Image missions store base64 images and video missions store their clips.
+// Video results saved before multi-clip support are a single Blob.
+export type MissionResult = string[] | Blob[] | Blob;
+
+export const isImageResult = (result: MissionResult): result is string[] =>
+    Array.isArray(result) && result.every(item => typeof item === 'string');
+
+export const getVideoClips = (result: MissionResult): Blob[] =>
+    result instanceof Blob ? [result] : result.filter((item): item is Blob => item instanceof Blob);
+
+export const saveResult = (id: string, result: MissionResult) =>
+    write([RESULTS_STORE], "Failed to save the mission result.", (tx) => {
+        tx.objectStore(RESULTS_STORE).put({ id, result });
+    });
+
+export const getResult = async (id: string): Promise<MissionResult | undefined> => {
+    try {
+        const db = await openDB();
+        const record = await requestToPromise(db.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE).get(id));
+        return record?.result;
+    } catch (error) {
+        console.error(`Failed to read result for mission ${id}`, error);
+        return undefined;
+    }
+};
+
+// Base64 strings are stored as-is, so their decoded size is about 3/4 of their length.
+const resultSize = (result: MissionResult): number =>
+    isImageResult(result)
+        ? result.reduce((sum, data) => sum + Math.round(data.length * 0.75), 0)
+        : getVideoClips(result).reduce((sum, clip) => sum + clip.size, 0);
+
+// Returns the stored size in bytes of every mission result, keyed by mission id.
+export const getResultSizes = async (): Promise<Record<string, number>> => {
+    const db = await openDB();
+    const sizes: Record<string, number> = {};
+    const request = db.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE).openCursor();
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(sizes);
+                return;
+            }
+            sizes[cursor.value.id] = resultSize(cursor.value.result);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Frees the results (and thumbnails) of the given missions. The missions
+// themselves and their audio stay, so they can still be regenerated.
+export const deleteResults = (ids: string[]) =>
+    write([RESULTS_STORE, THUMBNAILS_STORE], "Failed to free storage space.", (tx) => {
+        ids.forEach(id => {
+            tx.objectStore(RESULTS_STORE).delete(id);
+            tx.objectStore(THUMBNAILS_STORE).delete(id);
+        });
+    });
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        return await navigator.storage.estimate();
+    } catch (error) {
+        console.error("Failed to estimate storage usage", error);
+        return null;
+    }
+};
+
+// --- Audio attachments ---
+// Audio is keyed separately from missions so a regenerated mission can share it.
+export const saveAudio = (id: string, audio: Blob) =>
+    write([AUDIO_STORE], "Failed to save the audio attachment.", (tx) => {
+        tx.objectStore(AUDIO_STORE).put({ id, audio });
+    });
+
+export const getAudio = async (id: string): Promise<Blob | undefined> => {
+    try {
+        const db = await openDB();
+        const record = await requestToPromise(db.transaction(AUDIO_STORE, 'readonly').objectStore(AUDIO_STORE).get(id));
+        return record?.audio;
+    } catch (error) {
+        console.error(`Failed to read audio ${id}`, error);
+        return undefined;
+    }
+};
+
+// --- Thumbnails ---
+export const saveThumbnail = (id: string, thumbnail: Blob) =>
+    write([THUMBNAILS_STORE], "Failed to save the thumbnail.", (tx) => {
+        tx.objectStore(THUMBNAILS_STORE).put({ id, thumbnail });
+    });
+
+export const getThumbnail = async (id: string): Promise<Blob | undefined> => {
+    try {
+        const db = await openDB();
+        const record = await requestToPromise(db.transaction(THUMBNAILS_STORE, 'readonly').objectStore(THUMBNAILS_STORE).get(id));
+        return record?.thumbnail;
+    } catch (error) {
+        console.error(`Failed to read thumbnail ${id}`, error);
+        return undefined;
+    }
+};
+
+// --- Reference images ---
+// Starting frames for image-to-video missions. Like audio, they are shared
+// between a mission and its regenerations; each has a thumbnail under the same id.
+export const saveReferenceImage = (id: string, image: Blob, thumbnail: Blob) =>
+    write([REFERENCE_IMAGES_STORE, THUMBNAILS_STORE], "Failed to save the reference image.", (tx) => {
+        tx.objectStore(REFERENCE_IMAGES_STORE).put({ id, image });
+        tx.objectStore(THUMBNAILS_STORE).put({ id, thumbnail });
+    });
+
+export const getReferenceImage = async (id: string): Promise<Blob | undefined> => {
+    try {
+        const db = await openDB();
+        const record = await requestToPromise(db.transaction(REFERENCE_IMAGES_STORE, 'readonly').objectStore(REFERENCE_IMAGES_STORE).get(id));
+        return record?.image;
+    } catch (error) {
+        console.error(`Failed to read reference image ${id}`, error);
+        return undefined;
+    }
+};
+
+// Removes everything stored for the given missions. Shared attachments (audio
+// and reference images) are only removed once no remaining mission refers to them.
+export const deleteMissionData = (removed: Mission[], remaining: Mission[]) => {
+    const audioInUse = new Set(remaining.map(m => m.audioId).filter(Boolean));
+    const referenceImagesInUse = new Set(remaining.map(m => m.referenceImageId).filter(Boolean));
+    return write([RESULTS_STORE, AUDIO_STORE, THUMBNAILS_STORE, REFERENCE_IMAGES_STORE], "Failed to delete mission data.", (tx) => {
+        removed.forEach(mission => {
+            tx.objectStore(RESULTS_STORE).delete(mission.id);
+            tx.objectStore(THUMBNAILS_STORE).delete(mission.id);
+            if (mission.audioId && !audioInUse.has(mission.audioId)) {
+                tx.objectStore(AUDIO_STORE).delete(mission.audioId);
+            }
+            if (mission.referenceImageId && !referenceImagesInUse.has(mission.referenceImageId)) {
+                tx.objectStore(REFERENCE_IMAGES_STORE).delete(mission.referenceImageId);
+                tx.objectStore(THUMBNAILS_STORE).delete(mission.referenceImageId);
+            }
+        });
+    });
+};
+
+// --- Editor sessions ---
+// A session record holds the history tree without its images. Each image is
+// its own record in the editor images store, written as soon as the edit is
+// made (see historyImages.ts), and its thumbnail is in the thumbnails store
+// under the node id. Layer images are stored the same way, without a
+// thumbnail.
+export interface EditorSessionNode {
+    id: string;
+    parentId: string | null;
+    operation: EditOperation;
+    prompt?: string;
+    createdAt: number;
+}
+
+export interface EditorSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    nodes: Record<string, EditorSessionNode>;
+    rootId: string;
+    currentId: string;
+    redoTargets: Record<string, string>;
+    activeTab: string;
+    prompt: string;
+    source: EditorSource | null;
+    layers?: Layer[]; // Missing in sessions saved before the editor had layers
+}
+
+// A stored image of a session, without the image itself.
+export interface EditorSessionImage {
+    id: string; // The history node id, or a layer's image id
+    thumbnail?: Blob;
+}
+
+export const saveEditorSession = (session: EditorSession, thumbnails: { id: string, thumbnail: Blob }[]) =>
+    write([EDITOR_SESSIONS_STORE, THUMBNAILS_STORE], "Failed to save the editor session.", (tx) => {
+        tx.objectStore(EDITOR_SESSIONS_STORE).put(session);
+        thumbnails.forEach(({ id, thumbnail }) => tx.objectStore(THUMBNAILS_STORE).put({ id, thumbnail }));
+    });
+
+export const saveEditorImage = (sessionId: string, id: string, image: File) =>
+    write([EDITOR_IMAGES_STORE], "Failed to save the edited image.", (tx) => {
+        tx.objectStore(EDITOR_IMAGES_STORE).put({ id, sessionId, image });
+    });
+
+export const getEditorImage = async (id: string): Promise<File | undefined> => {
+    try {
+        const db = await openDB();
+        const record = await requestToPromise(db.transaction(EDITOR_IMAGES_STORE, 'readonly').objectStore(EDITOR_IMAGES_STORE).get(id));
+        return record?.image;
+    } catch (error) {
+        console.error(`Failed to read editor image ${id}`, error);
+        return undefined;
+    }
+};
+
+// Most recently edited first.
+export const listEditorSessions = async (): Promise<EditorSession[]> => {
+    try {
+        const db = await openDB();
+        const sessions = await requestToPromise<EditorSession[]>(db.transaction(EDITOR_SESSIONS_STORE, 'readonly').objectStore(EDITOR_SESSIONS_STORE).getAll());
+        return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+        console.error("Failed to list editor sessions", error);
+        return [];
+    }
+};
+
+export const loadEditorSession = async (id: string): Promise<{ session: EditorSession, images: EditorSessionImage[] } | undefined> => {
+    const db = await openDB();
+    const tx = db.transaction([EDITOR_SESSIONS_STORE, EDITOR_IMAGES_STORE, THUMBNAILS_STORE], 'readonly');
+    const session = await requestToPromise<EditorSession | undefined>(tx.objectStore(EDITOR_SESSIONS_STORE).get(id));
+    if (!session) return undefined;
+    // Only the keys: the images themselves are read when the editor needs them.
+    const imageIds = await requestToPromise(tx.objectStore(EDITOR_IMAGES_STORE).index('sessionId').getAllKeys(id));
+    const images = await Promise.all(imageIds.map(async (imageId) => {
+        const nodeId = String(imageId);
+        const thumbnail = await requestToPromise(tx.objectStore(THUMBNAILS_STORE).get(nodeId));
+        return { id: nodeId, thumbnail: thumbnail?.thumbnail };
+    }));
+    return { session, images };
+};
+
+export const renameEditorSession = async (id: string, name: string) => {
+    const db = await openDB();
+    const session = await requestToPromise<EditorSession | undefined>(db.transaction(EDITOR_SESSIONS_STORE, 'readonly').objectStore(EDITOR_SESSIONS_STORE).get(id));
+    if (!session) return;
+    await write([EDITOR_SESSIONS_STORE], "Failed to rename the editor session.", (tx) => {
+        tx.objectStore(EDITOR_SESSIONS_STORE).put({ ...session, name });
+    });
+};
+
+export const deleteEditorSession = async (id: string) => {
+    const db = await openDB();
+    // Images are found through the index as well, in case some were written
+    // after the session record was last saved.
+    const imageIds = await requestToPromise(db.transaction(EDITOR_IMAGES_STORE, 'readonly').objectStore(EDITOR_IMAGES_STORE).index('sessionId').getAllKeys(id));
+    await write([EDITOR_SESSIONS_STORE, EDITOR_IMAGES_STORE, THUMBNAILS_STORE], "Failed to delete the editor session.", (tx) => {
+        tx.objectStore(EDITOR_SESSIONS_STORE).delete(id);
+        imageIds.forEach(nodeId => {
+            tx.objectStore(EDITOR_IMAGES_STORE).delete(nodeId);
+            tx.objectStore(THUMBNAILS_STORE).delete(nodeId);
+        });
+    });
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission } from '../App';
+import { reorderMissions } from './missionScheduler';
+
+// Coordinates the app across browser tabs. One tab, the leader, holds a Web
+// Lock and is the only one that processes and saves missions. Other tabs send
+// their changes to the leader and mirror the list it broadcasts back. When the
+// leader tab closes, its lock is released and the next waiting tab takes over.
+
+const LEADER_LOCK = 'peter-pixx-leader';
+const CHANNEL_NAME = 'peter-pixx-missions';
+
+// A change to the mission list that can be sent between tabs.
+export type MissionChange =
+    | { type: 'add'; mission: Mission }
+    | { type: 'update'; id: string; updates: Partial<Mission> }
+    | { type: 'remove'; ids: string[] }
+    | { type: 'reorder'; draggedId: string; targetId: string };
+
+export const applyMissionChange = (missions: Mission[], change: MissionChange): Mission[] => {
+    switch (change.type) {
+        case 'add':
+            return [...missions, change.mission];
+        case 'update':
+            return missions.map(m => m.id === change.id ? { ...m, ...change.updates } : m);
+        case 'remove':
+            return missions.filter(m => !change.ids.includes(m.id));
+        case 'reorder':
+            return reorderMissions(missions, change.draggedId, change.targetId);
+    }
+};
+
+type TabMessage =
+    | { type: 'missions'; missions: Mission[] }
+    | { type: 'change'; change: MissionChange }
+    | { type: 'queue-paused'; isPaused: boolean }
+    | { type: 'sync-request' };
+
+interface TabCoordinatorHandlers {
+    onBecomeLeader: () => void;
+    // Leader only: a change made in another tab.
+    onChange: (change: MissionChange) => void;
+    // Leader only: a newly opened tab wants the current list.
+    onSyncRequest: () => void;
+    // Followers only: the leader's current list.
+    onMissions: (missions: Mission[]) => void;
+    onQueuePaused: (isPaused: boolean) => void;
+}
+
+export interface TabCoordinator {
+    isLeader: () => boolean;
+    broadcastMissions: (missions: Mission[]) => void;
+    sendChange: (change: MissionChange) => void;
+    broadcastQueuePaused: (isPaused: boolean) => void;
+    close: () => void;
+}
+
+export const createTabCoordinator = (handlers: TabCoordinatorHandlers): TabCoordinator => {
+    let isLeader = false;
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    const post = (message: TabMessage) => channel?.postMessage(message);
+
+    if (channel) {
+        channel.onmessage = (event: MessageEvent<TabMessage>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'missions':
+                    if (!isLeader) handlers.onMissions(message.missions);
+                    break;
+                case 'change':
+                    if (isLeader) handlers.onChange(message.change);
+                    break;
+                case 'sync-request':
+                    if (isLeader) handlers.onSyncRequest();
+                    break;
+                case 'queue-paused':
+                    handlers.onQueuePaused(message.isPaused);
+                    break;
+            }
+        };
+    }
+
+    const becomeLeader = () => {
+        isLeader = true;
+        handlers.onBecomeLeader();
+    };
+
+    // The lock is held until `releaseLock` is called or the tab goes away.
+    let releaseLock: (() => void) | undefined;
+    const lockRequest = new AbortController();
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        navigator.locks.request(LEADER_LOCK, { signal: lockRequest.signal }, () => {
+            becomeLeader();
+            return new Promise<void>(resolve => { releaseLock = resolve; });
+        }).catch(error => {
+            if (!lockRequest.signal.aborted) console.error("Failed to request the leader lock", error);
+        });
+        post({ type: 'sync-request' });
+    } else {
+        // Without Web Locks there is no way to coordinate, so every tab runs its own queue.
+        becomeLeader();
+    }
+
+    return {
+        isLeader: () => isLeader,
+        broadcastMissions: (missions) => post({ type: 'missions', missions }),
+        sendChange: (change) => post({ type: 'change', change }),
+        broadcastQueuePaused: (isPaused) => post({ type: 'queue-paused', isPaused }),
+        close: () => {
+            lockRequest.abort();
+            releaseLock?.();
+            channel?.close();
+        },
+    };
+};
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Scales an image down so its longest edge is at most `maxEdge` pixels and
+// encodes it as JPEG. Used for the small previews in the Missions panel.
+export const createThumbnail = async (image: Blob, maxEdge = 128): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context for the thumbnail.");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the thumbnail.")), 'image/jpeg', 0.8);
+    });
+};
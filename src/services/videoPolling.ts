@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Mission } from '../App';
+import type { AppSettings } from './settings';
+import { checkVideoOperationStatus, type VideoOperation } from './aiProvider';
+import { DeadlineExceededError, InvalidVideoError } from './aiErrors';
+import { delay } from './abort';
+
+export const DEFAULT_VIDEO_DEADLINE_MINUTES = 20;
+// Used for the ETA until a few videos have completed on this device.
+const DEFAULT_VIDEO_DURATION_MS = 2 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const INITIAL_POLL_MS = 5000;
+const MAX_POLL_MS = 30000;
+const POLL_BACKOFF = 1.5;
+
+export const getVideoDeadlineMinutes = (settings: AppSettings): number =>
+    settings.videoDeadlineMinutes || DEFAULT_VIDEO_DEADLINE_MINUTES;
+
+export const getVideoDeadlineMs = (settings: AppSettings): number => getVideoDeadlineMinutes(settings) * MINUTE_MS;
+
+interface PollOptions {
+    deadlineAt: number;
+    deadlineMinutes: number;
+    signal?: AbortSignal;
+    onPoll?: (checks: number) => void;
+}
+
+// Polls until the operation is done, waiting longer between checks each time.
+// Throws DeadlineExceededError once `deadlineAt` passes with the operation
+// still running; the caller keeps the operation so it can be resumed.
+export const pollVideoOperation = async (
+    operation: VideoOperation,
+    { deadlineAt, deadlineMinutes, signal, onPoll }: PollOptions
+): Promise<VideoOperation> => {
+    let interval = INITIAL_POLL_MS;
+    let checks = 0;
+    while (!operation.done) {
+        const remaining = deadlineAt - Date.now();
+        if (remaining <= 0) throw new DeadlineExceededError(deadlineMinutes);
+        onPoll?.(checks);
+        await delay(Math.min(interval, remaining), signal);
+        operation = await checkVideoOperationStatus(operation, signal);
+        checks++;
+        interval = Math.min(MAX_POLL_MS, interval * POLL_BACKOFF);
+    }
+    return operation;
+};
+
+// Container signatures for when the server sends a generic content type.
+const isMp4 = (bytes: Uint8Array) => String.fromCharCode(...bytes.subarray(4, 8)) === 'ftyp';
+const isWebm = (bytes: Uint8Array) => bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3;
+
+export const validateVideoBlob = async (blob: Blob): Promise<void> => {
+    if (blob.size === 0) throw new InvalidVideoError("empty response");
+    if (blob.type.startsWith('video/')) return;
+    if (blob.type && blob.type !== 'application/octet-stream') {
+        throw new InvalidVideoError(`received ${blob.type.split(';')[0]}`);
+    }
+    const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+    if (!isMp4(header) && !isWebm(header)) throw new InvalidVideoError("unrecognised file format");
+};
+
+// Median generation time of recently completed video missions.
+export const estimateVideoDurationMs = (missions: Mission[]): number => {
+    const durations = missions
+        .filter(m => m.type === 'video-gen' && m.status === 'completed' && m.operationStartedAt && m.completedAt)
+        .slice(-10)
+        .map(m => m.completedAt! - m.operationStartedAt!)
+        .sort((a, b) => a - b);
+    if (durations.length === 0) return DEFAULT_VIDEO_DURATION_MS;
+    return durations[Math.floor(durations.length / 2)];
+};
+
+// "m:ss", used for the elapsed and remaining times in the Missions panel.
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};